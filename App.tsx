@@ -1,10 +1,49 @@
 import React, { useState, useEffect, useMemo, useRef } from 'react';
 import Layout from './components/Layout';
 import StudySession from './views/StudySession';
+import WordList from './views/WordList';
 import AddWordModal from './components/AddWordModal';
-import { Word, Settings, AppStats, StudyMode, WordStatus, LanguageLevel, StudySource } from './types';
-import { storageService } from './services/storage';
+import { Word, Settings, AppStats, StudyMode, WordStatus, LanguageLevel, StudySource, SessionResult, ReviewLog, ReviewGrade, PendingAiTask, StudyDirection, SessionDirection } from './types';
+import { storageService, PreparedImport } from './services/storage';
+import { mergeService, MergePreview } from './services/merge';
+import ImportPreviewModal from './components/ImportPreviewModal';
+import CsvImportModal from './components/CsvImportModal';
+import { csvService } from './services/csv';
+import AnkiImportModal from './components/AnkiImportModal';
+import { ankiService } from './services/anki';
+import { summarizeReport } from './services/schema';
 import { geminiService } from './services/gemini';
+import { imageCache } from './services/imageCache';
+import { offlineQueue } from './services/offlineQueue';
+import { schedulerService } from './services/scheduler';
+import { streakService, MAX_STREAK_FREEZES } from './services/streak';
+import ProgressRing from './components/ProgressRing';
+import LocalModelSettings from './components/LocalModelSettings';
+import ImageProviderSettings from './components/ImageProviderSettings';
+import ImageCacheSettings from './components/ImageCacheSettings';
+import WordDetailPanel from './components/WordDetailPanel';
+
+const generateId = () => Math.random().toString(36).substr(2, 9);
+
+// Matching pairs and filling in an English sentence don't have a reverse direction
+const SINGLE_DIRECTION_MODES = [StudyMode.match, StudyMode.cloze];
+
+const DIRECTION_OPTIONS: { val: SessionDirection; label: string }[] = [
+  { val: 'pl-en', label: 'PL → EN' },
+  { val: 'en-pl', label: 'EN → PL' },
+  { val: 'mixed', label: 'Mieszany' },
+];
+
+const downloadFile = (blob: Blob, filename: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+};
 
 const App: React.FC = () => {
   const [activeTab, setActiveTab] = useState('dashboard');
@@ -15,16 +54,24 @@ const App: React.FC = () => {
   const [isStudying, setIsStudying] = useState(false);
   const [studyMode, setStudyMode] = useState<StudyMode>(StudyMode.flashcards);
   const [sessionWords, setSessionWords] = useState<Word[]>([]);
+  const [sessionDirections, setSessionDirections] = useState<StudyDirection[]>([]);
   
   const [isGenerating, setIsGenerating] = useState(false);
   const [isAddModalOpen, setIsAddModalOpen] = useState(false);
-  const [listFilter, setListFilter] = useState<StudySource>(StudySource.All);
+  const [isCsvImportOpen, setIsCsvImportOpen] = useState(false);
+  const [csvWithProgress, setCsvWithProgress] = useState(false);
+  const [isAnkiImportOpen, setIsAnkiImportOpen] = useState(false);
+  const [isExportingAnki, setIsExportingAnki] = useState(false);
   const [selectedCategory, setSelectedCategory] = useState('Losowe');
+  const [selectedWordId, setSelectedWordId] = useState<string | null>(null);
+  const [isOnline, setIsOnline] = useState(offlineQueue.isOnline());
+  const [pendingCount, setPendingCount] = useState(offlineQueue.getTasks().length);
 
   // Backup State
   const [textBackupMode, setTextBackupMode] = useState<'none' | 'export' | 'import'>('none');
   const [backupText, setBackupText] = useState('');
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [pendingImport, setPendingImport] = useState<{ prepared: PreparedImport; preview: MergePreview } | null>(null);
 
   useEffect(() => {
     const loadedWords = storageService.getWords();
@@ -32,17 +79,24 @@ const App: React.FC = () => {
     updateStats(loadedWords);
   }, []);
 
-  const updateStats = (currentWords: Word[]) => {
-    const newStats: AppStats = {
+  const updateStats = (currentWords: Word[], studied: boolean = false) => {
+    let newStats: AppStats = {
+      // Not the `stats` state: queued AI tasks call this from an older render
+      ...storageService.getStats(),
       totalWords: currentWords.length,
       learnedWords: currentWords.filter(w => w.status === WordStatus.Learned).length,
-      streakDays: stats.streakDays, 
-      lastStudyDate: stats.lastStudyDate
     };
+    if (studied) {
+      newStats = streakService.recordStudyDay(newStats, settings.useStreakFreezes);
+    }
     setStats(newStats);
     storageService.saveStats(newStats);
   };
 
+  // Recomputed whenever words change, which is also when a session writes new review logs
+  const reviewedToday = useMemo(() => streakService.countReviewedToday(storageService.getReviewLogs()), [words]);
+  const currentStreak = streakService.getCurrentStreak(stats, settings.useStreakFreezes);
+
   const getEligibleWords = useMemo(() => {
     if (settings.preferredStudySource === StudySource.Manual) {
         return words.filter(w => w.aiGenerated === false);
@@ -55,17 +109,38 @@ const App: React.FC = () => {
   const startSession = (mode: StudyMode) => {
     const now = Date.now();
     const eligibleWords = getEligibleWords;
-    const dueWords = eligibleWords.filter(w => w.nextReview <= now || w.status === WordStatus.New)
-                          .sort((a, b) => a.nextReview - b.nextReview)
-                          .slice(0, 10);
+    const sessionDirection: SessionDirection = SINGLE_DIRECTION_MODES.includes(mode) ? 'pl-en' : settings.studyDirection;
+    const candidates: StudyDirection[] = sessionDirection === 'mixed' ? ['pl-en', 'en-pl'] : [sessionDirection];
+
+    // Each direction has its own schedule. Reviews come first, most overdue first, then new words;
+    // in a mixed session a word is asked in the direction that is further behind.
+    const dueAt = (w: Word, d: StudyDirection) => {
+        const progress = schedulerService.getProgress(w, d);
+        return progress.status === WordStatus.New ? now : progress.nextReview;
+    };
+    const due = eligibleWords
+        .map(w => {
+            const direction = candidates
+                .filter(d => schedulerService.isDue(w, d, now))
+                .sort((a, b) => dueAt(w, a) - dueAt(w, b))[0];
+            return direction ? { word: w, direction, at: dueAt(w, direction) } : null;
+        })
+        .filter((item): item is { word: Word; direction: StudyDirection; at: number } => item !== null)
+        .sort((a, b) => a.at - b.at)
+        .slice(0, 10);
+
+    const begin = (sessionWords: Word[], directions: StudyDirection[]) => {
+        setSessionWords(sessionWords);
+        setSessionDirections(directions);
+        setStudyMode(mode);
+        setIsStudying(true);
+    };
 
-    if (dueWords.length === 0) {
+    if (due.length === 0) {
         const fallbackWords = eligibleWords.sort(() => 0.5 - Math.random()).slice(0, 10);
         if (fallbackWords.length > 0) {
              if (confirm(`Brak powtórek na dziś. Czy chcesz uruchomić tryb swobodny z losowymi słowami?`)) {
-                 setSessionWords(fallbackWords);
-                 setStudyMode(mode);
-                 setIsStudying(true);
+                 begin(fallbackWords, fallbackWords.map(() => candidates[Math.floor(Math.random() * candidates.length)]));
              }
              return;
         }
@@ -73,38 +148,94 @@ const App: React.FC = () => {
         return;
     }
 
-    setSessionWords(dueWords);
-    setStudyMode(mode);
-    setIsStudying(true);
+    begin(due.map(d => d.word), due.map(d => d.direction));
   };
 
-  const handleSessionComplete = (results: { wordId: string; correct: boolean }[]) => {
-    const updatedWords = words.map(word => {
-        const res = results.find(r => r.wordId === word.id);
-        if (res) {
-            const isCorrect = res.correct;
-            let nextReview = Date.now();
-            let status = word.status;
-
-            if (isCorrect) {
-                const days = word.correct === 0 ? 1 : word.correct === 1 ? 3 : 7;
-                nextReview += days * 24 * 60 * 60 * 1000;
-                status = word.correct > 3 ? WordStatus.Learned : WordStatus.Learning;
-                return { ...word, correct: word.correct + 1, attempts: word.attempts + 1, lastReview: Date.now(), nextReview, status };
-            } else {
-                nextReview += 10 * 60 * 1000;
-                return { ...word, correct: 0, attempts: word.attempts + 1, lastReview: Date.now(), nextReview, status: WordStatus.Learning };
-            }
-        }
-        return word;
+  // Grades the words and logs the reviews; `studied` also counts today towards the streak
+  const applyReviews = (results: SessionResult[], mode: StudyMode, studied: boolean) => {
+    const now = Date.now();
+    const reviewed = new Map<string, Word>();
+    const logs: ReviewLog[] = [];
+    const currentWords = storageService.getWords();
+
+    results.forEach(res => {
+        const word = reviewed.get(res.wordId) || currentWords.find(w => w.id === res.wordId);
+        if (!word) return;
+        const direction = res.direction ?? 'pl-en';
+        const updated = schedulerService.review(word, res.grade, now, direction);
+        reviewed.set(word.id, updated);
+        logs.push({
+            id: generateId(),
+            wordId: word.id,
+            timestamp: now,
+            mode,
+            grade: res.grade,
+            responseTimeMs: res.responseTimeMs,
+            direction,
+            previousInterval: schedulerService.getProgress(word, direction).interval ?? 0,
+            nextInterval: schedulerService.getProgress(updated, direction).interval ?? 0
+        });
     });
 
+    const updatedWords = currentWords.map(word => reviewed.get(word.id) || word);
+    storageService.addReviewLogs(logs);
+
     setWords(updatedWords);
     storageService.saveWords(updatedWords);
-    updateStats(updatedWords);
+    updateStats(updatedWords, studied);
+  };
+
+  // A finished session always counts the day, even if every answer was queued offline and `results` is empty
+  const handleSessionComplete = (results: SessionResult[]) => {
+    applyReviews(results, studyMode, true);
     setIsStudying(false);
   };
 
+  // --- OFFLINE AI QUEUE ---
+
+  const runPendingTask = async (task: PendingAiTask) => {
+    if (task.type === 'checkTranslation') {
+        if (!storageService.getWords().some(w => w.id === task.wordId)) return;
+        const result = await geminiService.checkTranslation(task.polish, task.answer);
+        if (result.feedback === 'AI_ERROR') throw new Error("Translation check failed");
+        // Same grades as an online typing session; the day itself was counted when the session ended
+        applyReviews([{ wordId: task.wordId, grade: result.isCorrect ? ReviewGrade.Hard : ReviewGrade.Again, responseTimeMs: task.responseTimeMs }], StudyMode.typing, false);
+    } else if (task.type === 'generateWords') {
+        const existingEnglish = storageService.getWords().map(w => w.english);
+        const newWords = await geminiService.generateWords(task.category, task.level, task.count, existingEnglish);
+        const merged = [...storageService.getWords(), ...newWords];
+        setWords(merged);
+        storageService.saveWords(merged);
+        updateStats(merged);
+    } else if (task.type === 'exampleSentence') {
+        const word = storageService.getWords().find(w => w.id === task.wordId);
+        if (!word || word.exampleSentence) return;
+        const exampleSentence = await geminiService.generateExampleSentence(task.english, task.polish);
+        if (!exampleSentence) throw new Error("No example sentence");
+        const updated = storageService.getWords().map(w => w.id === word.id ? { ...w, exampleSentence } : w);
+        setWords(updated);
+        storageService.saveWords(updated);
+    }
+  };
+
+  // The online listener outlives renders, so it calls the latest handler through a ref
+  const runPendingTaskRef = useRef(runPendingTask);
+  runPendingTaskRef.current = runPendingTask;
+
+  useEffect(() => {
+    const flush = () => offlineQueue.flush(task => runPendingTaskRef.current(task));
+    const updateOnline = () => { setIsOnline(offlineQueue.isOnline()); flush(); };
+    const unsubscribe = offlineQueue.subscribe(() => setPendingCount(offlineQueue.getTasks().length));
+    window.addEventListener('online', updateOnline);
+    window.addEventListener('offline', updateOnline);
+    flush();
+    return () => {
+        unsubscribe();
+        window.removeEventListener('online', updateOnline);
+        window.removeEventListener('offline', updateOnline);
+    };
+  }, []);
+
   const handleWordUpdate = (updatedWord: Word) => {
     const newMasterList = words.map(w => w.id === updatedWord.id ? updatedWord : w);
     setWords(newMasterList);
@@ -114,7 +245,33 @@ const App: React.FC = () => {
     }
   };
 
+  // Edits from the word list and the detail panel; they can change the status, so stats are recounted
+  const handleWordsUpdate = (updated: Word[]) => {
+    const byId = new Map(updated.map(w => [w.id, w]));
+    const newWords = words.map(w => byId.get(w.id) || w);
+    setWords(newWords);
+    storageService.saveWords(newWords);
+    updateStats(newWords);
+  };
+
+  const handleWordsDelete = (ids: string[]) => {
+    const removed = new Set(ids);
+    const newWords = words.filter(w => !removed.has(w.id));
+    setWords(newWords);
+    storageService.saveWords(newWords);
+    updateStats(newWords);
+    if (selectedWordId && removed.has(selectedWordId)) setSelectedWordId(null);
+  };
+
+  const handleWordSave = (updatedWord: Word) => handleWordsUpdate([updatedWord]);
+  const handleWordDelete = (word: Word) => handleWordsDelete([word.id]);
+
   const handleGenerateWords = async (category: string) => {
+      if (!offlineQueue.canUseAi()) {
+          offlineQueue.add({ type: 'generateWords', category, level: settings.level, count: 5 });
+          alert('Brak internetu. Słowa zostaną wygenerowane automatycznie po powrocie do sieci.');
+          return;
+      }
       setIsGenerating(true);
       try {
           const existingEnglish = words.map(w => w.english);
@@ -135,13 +292,52 @@ const App: React.FC = () => {
       }
   };
   
-  const handleManualAddWord = (newWord: Word) => {
-      const merged = [newWord, ...words];
+  const handleManualAddWord = (newWords: Word[]) => {
+      const merged = [...newWords, ...words];
       setWords(merged);
       storageService.saveWords(merged);
       updateStats(merged);
   };
 
+  const handleCsvImport = (newWords: Word[]) => {
+      const merged = [...words, ...newWords];
+      setWords(merged);
+      storageService.saveWords(merged);
+      updateStats(merged);
+      alert(`Zaimportowano ${newWords.length} słów.`);
+  };
+
+  const handleExportCsv = () => {
+      const csv = csvService.exportWords(words, csvWithProgress);
+      const date = new Date().toISOString().split('T')[0];
+      downloadFile(new Blob([csv], { type: 'text/csv;charset=utf-8' }), `ai_vocab_words_${date}.csv`);
+  };
+
+  const handleAnkiImport = (newWords: Word[], images: Record<string, string>) => {
+      Object.entries(images).forEach(([key, url]) => storageService.cacheImage(key, url));
+      handleCsvImport(newWords);
+  };
+
+  const handleExportAnki = async () => {
+      setIsExportingAnki(true);
+      try {
+          const blob = await ankiService.exportPackage(
+              words,
+              storageService.getReviewLogs(),
+              'AI Vocabulary Builder',
+              async (w) => await imageCache.getAsDataUrl(imageCache.keyFor(w.english, settings.visualStyle))
+                  || w.imageUrl || await storageService.getCachedImage(w.english.toLowerCase().trim())
+          );
+          const date = new Date().toISOString().split('T')[0];
+          downloadFile(blob, `ai_vocab_${date}.apkg`);
+      } catch (e: any) {
+          console.error("Anki export error", e);
+          alert(`Błąd eksportu do Anki: ${e?.message || e}`);
+      } finally {
+          setIsExportingAnki(false);
+      }
+  };
+
   const applySubnpPreset = () => {
       const newS = { 
           ...settings, 
@@ -158,17 +354,9 @@ const App: React.FC = () => {
       const data = storageService.getAllData();
       const jsonString = JSON.stringify(data, null, 2);
       const blob = new Blob([jsonString], { type: 'application/json' });
-      const url = URL.createObjectURL(blob);
-      
-      const link = document.createElement('a');
-      link.href = url;
       // Current date for filename
       const date = new Date().toISOString().split('T')[0];
-      link.download = `ai_vocab_backup_${date}.json`;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      URL.revokeObjectURL(url);
+      downloadFile(blob, `ai_vocab_backup_${date}.json`);
   };
 
   const handleImportFileClick = () => {
@@ -197,26 +385,45 @@ const App: React.FC = () => {
   };
 
   const processImport = (jsonString: string) => {
+      let data: any;
       try {
-          const data = JSON.parse(jsonString);
-          if (confirm(`Czy na pewno chcesz przywrócić kopię zapasową? Nadpisze to obecne ${words.length} słów.`)) {
-              storageService.importData(data);
-              
-              // Reload state
-              const newWords = storageService.getWords();
-              setWords(newWords);
-              setSettings(storageService.getSettings());
-              updateStats(newWords);
-              
-              setBackupText('');
-              setTextBackupMode('none');
-              alert('Dane zostały pomyślnie zaimportowane! ✅');
-          }
+          data = JSON.parse(jsonString);
       } catch (e) {
           alert("Błąd: Nieprawidłowy format danych JSON.");
+          return;
+      }
+
+      try {
+          // Validate first and show what would change before anything is saved
+          const prepared = storageService.prepareImport(data);
+          setPendingImport({ prepared, preview: mergeService.preview(words, prepared.words) });
+      } catch (e: any) {
+          alert(`Błąd importu: ${e?.message || 'Nieznany błąd'}`);
       }
   };
 
+  const commitImport = (mode: 'replace' | 'merge') => {
+      if (!pendingImport) return;
+      if (mode === 'replace' && !confirm(`Czy na pewno chcesz zastąpić dane? Obecne ${words.length} słów zostanie nadpisane.`)) return;
+
+      const { importedWords, report } = storageService.applyImport(pendingImport.prepared, mode);
+      setPendingImport(null);
+
+      // Reload state
+      const newWords = storageService.getWords();
+      setWords(newWords);
+      setSettings(storageService.getSettings());
+      setStats(storageService.getStats());
+      updateStats(newWords);
+
+      setBackupText('');
+      setTextBackupMode('none');
+
+      const summary = mode === 'merge' ? `Scalono dane: ${importedWords} nowych lub zaktualizowanych słów.` : `Zaimportowano ${importedWords} słów.`;
+      const details = summarizeReport(report);
+      alert(`Dane zostały pomyślnie zaimportowane! ✅\n${summary}${details ? `\n\n${details}` : ''}`);
+  };
+
   // Text Backup Handlers
   const openTextExport = () => {
       const data = storageService.getAllData();
@@ -238,9 +445,11 @@ const App: React.FC = () => {
               <StudySession 
                 mode={studyMode} 
                 words={sessionWords} 
+                directions={sessionDirections}
                 onComplete={handleSessionComplete}
                 onUpdateWord={handleWordUpdate}
                 onExit={() => setIsStudying(false)}
+                allWords={words}
               />
           </div>
       );
@@ -256,6 +465,26 @@ const App: React.FC = () => {
            <button onClick={() => setIsAddModalOpen(true)} className="bg-indigo-600 text-white px-5 py-3 rounded-xl font-bold hover:bg-indigo-700 transition-colors shadow-lg shadow-indigo-200">+ Dodaj Słowo</button>
        </header>
 
+       <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-100 flex items-center gap-6">
+           <ProgressRing value={reviewedToday} max={settings.dailyGoal}>
+               <span className="text-xl font-bold text-slate-800">{reviewedToday}</span>
+               <span className="text-[10px] text-slate-400">/ {settings.dailyGoal}</span>
+           </ProgressRing>
+           <div className="flex-1">
+               <div className="font-bold text-slate-800">Dzisiejszy cel</div>
+               <div className="text-sm text-slate-500">
+                   {reviewedToday >= settings.dailyGoal ? 'Cel osiągnięty! 🎉' : `Zostało ${settings.dailyGoal - reviewedToday} słów do celu.`}
+               </div>
+           </div>
+           <div className="text-center">
+               <div className="text-3xl font-bold text-orange-500">🔥 {currentStreak}</div>
+               <div className="text-xs text-slate-400">{currentStreak === 1 ? 'dzień z rzędu' : 'dni z rzędu'}</div>
+               {settings.useStreakFreezes && (
+                   <div className="text-xs text-sky-500 mt-1" title="Zamrożenia chronią serię przed jednym opuszczonym dniem">❄️ {stats.streakFreezes}/{MAX_STREAK_FREEZES}</div>
+               )}
+           </div>
+       </div>
+
        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
            <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-100"><div className="text-3xl font-bold text-indigo-600 mb-1">{stats.totalWords}</div><div className="text-sm text-slate-400">Wszystkie słowa</div></div>
            <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-100"><div className="text-3xl font-bold text-green-600 mb-1">{stats.learnedWords}</div><div className="text-sm text-slate-400">Nauczone</div></div>
@@ -266,11 +495,18 @@ const App: React.FC = () => {
        <div className="mt-8">
            <div className="flex justify-between items-end mb-4">
                <h3 className="text-xl font-bold text-slate-800">Tryby Nauki</h3>
+               <div className="flex flex-wrap justify-end gap-2">
+               <div className="flex bg-slate-100 p-1 rounded-lg" title="Kierunek tłumaczenia (Dopasowywanie i Uzupełnianie zawsze PL → EN)">
+                   {DIRECTION_OPTIONS.map(opt => (
+                       <button key={opt.val} onClick={() => { const newS = { ...settings, studyDirection: opt.val }; setSettings(newS); storageService.saveSettings(newS); }} className={`px-3 py-1 text-xs font-medium rounded-md transition-all ${settings.studyDirection === opt.val ? 'bg-white text-indigo-700 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}>{opt.label}</button>
+                   ))}
+               </div>
                <div className="flex bg-slate-100 p-1 rounded-lg">
                    {[{ val: StudySource.All, label: 'Wszystkie' }, { val: StudySource.Manual, label: 'Moje' }, { val: StudySource.AiGenerated, label: 'AI' }].map(opt => (
                        <button key={opt.val} onClick={() => { const newS = { ...settings, preferredStudySource: opt.val }; setSettings(newS); storageService.saveSettings(newS); }} className={`px-3 py-1 text-xs font-medium rounded-md transition-all ${settings.preferredStudySource === opt.val ? 'bg-white text-indigo-700 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}>{opt.label}</button>
                    ))}
                </div>
+               </div>
            </div>
            
            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -278,6 +514,8 @@ const App: React.FC = () => {
                <button onClick={() => startSession(StudyMode.match)} className="flex items-center p-6 bg-white border border-slate-200 text-slate-800 rounded-2xl hover:border-indigo-300 transition-all hover:bg-slate-50"><div className="text-4xl mr-4">🧩</div><div className="text-left"><div className="font-bold text-lg">Dopasowywanie</div><div className="text-slate-500 text-sm">Połącz pary słów</div></div></button>
                <button onClick={() => startSession(StudyMode.typing)} className="flex items-center p-6 bg-white border border-slate-200 text-slate-800 rounded-2xl hover:border-indigo-300 transition-all hover:bg-slate-50"><div className="text-4xl mr-4">⌨️</div><div className="text-left"><div className="font-bold text-lg">Pisanie</div><div className="text-slate-500 text-sm">Ćwicz poprawną pisownię</div></div></button>
                <button onClick={() => startSession(StudyMode.listening)} className="flex items-center p-6 bg-white border border-slate-200 text-slate-800 rounded-2xl hover:border-indigo-300 transition-all hover:bg-slate-50"><div className="text-4xl mr-4">🎧</div><div className="text-left"><div className="font-bold text-lg">Słuchanie</div><div className="text-slate-500 text-sm">Rozumienie ze słuchu (TTS)</div></div></button>
+               <button onClick={() => startSession(StudyMode.multipleChoice)} className="flex items-center p-6 bg-white border border-slate-200 text-slate-800 rounded-2xl hover:border-indigo-300 transition-all hover:bg-slate-50"><div className="text-4xl mr-4">✅</div><div className="text-left"><div className="font-bold text-lg">Quiz</div><div className="text-slate-500 text-sm">Wybierz jedną z czterech odpowiedzi</div></div></button>
+               <button onClick={() => startSession(StudyMode.cloze)} className="flex items-center p-6 bg-white border border-slate-200 text-slate-800 rounded-2xl hover:border-indigo-300 transition-all hover:bg-slate-50"><div className="text-4xl mr-4">📝</div><div className="text-left"><div className="font-bold text-lg">Uzupełnianie</div><div className="text-slate-500 text-sm">Wpisz brakujące słowo w zdaniu</div></div></button>
            </div>
        </div>
 
@@ -341,35 +579,28 @@ const App: React.FC = () => {
     </div>
   );
 
-  const renderWordList = () => {
-      const filteredList = words.filter(w => {
-          if (listFilter === StudySource.Manual) return !w.aiGenerated;
-          if (listFilter === StudySource.AiGenerated) return w.aiGenerated;
-          return true;
-      });
-
-      return (
-      <div className="space-y-4 pb-32 md:pb-0">
-          <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-4 gap-4">
-            <h2 className="text-2xl font-bold">Baza Słów ({filteredList.length})</h2>
-            <div className="flex gap-2 w-full md:w-auto">
-                 <select value={listFilter} onChange={(e) => setListFilter(e.target.value as StudySource)} className="p-2 border border-slate-300 rounded-lg text-sm bg-white"><option value={StudySource.All}>Wszystkie</option><option value={StudySource.Manual}>Tylko moje</option><option value={StudySource.AiGenerated}>Tylko AI</option></select>
-                <button onClick={() => setIsAddModalOpen(true)} className="bg-indigo-600 text-white px-3 py-2 rounded-lg text-sm font-bold hover:bg-indigo-700"> + Dodaj </button>
-            </div>
+  const selectedWord = selectedWordId ? words.find(w => w.id === selectedWordId) : undefined;
+
+  const renderWordList = () => (
+      <WordList
+          words={words}
+          onOpenWord={(word) => setSelectedWordId(word.id)}
+          onAdd={() => setIsAddModalOpen(true)}
+          onUpdateWords={handleWordsUpdate}
+          onDeleteWords={handleWordsDelete}
+      >
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+              <button onClick={() => setIsCsvImportOpen(true)} className="px-3 py-1.5 rounded-lg border border-slate-300 bg-white text-slate-700 hover:bg-slate-50">📥 Import CSV</button>
+              <button onClick={handleExportCsv} disabled={words.length === 0} className="px-3 py-1.5 rounded-lg border border-slate-300 bg-white text-slate-700 hover:bg-slate-50 disabled:opacity-50">📤 Eksport CSV</button>
+              <label className="flex items-center gap-1 text-xs text-slate-500 cursor-pointer">
+                  <input type="checkbox" checked={csvWithProgress} onChange={(e) => setCsvWithProgress(e.target.checked)} />
+                  z postępami nauki
+              </label>
+              <button onClick={() => setIsAnkiImportOpen(true)} className="px-3 py-1.5 rounded-lg border border-slate-300 bg-white text-slate-700 hover:bg-slate-50">📥 Import Anki</button>
+              <button onClick={handleExportAnki} disabled={words.length === 0 || isExportingAnki} className="px-3 py-1.5 rounded-lg border border-slate-300 bg-white text-slate-700 hover:bg-slate-50 disabled:opacity-50">{isExportingAnki ? '⏳ Eksportowanie...' : '📤 Eksport Anki'}</button>
           </div>
-          <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
-              {filteredList.map((word, idx) => (
-                  <div key={word.id} className={`p-4 flex justify-between items-center ${idx !== filteredList.length-1 ? 'border-b border-slate-100' : ''}`}>
-                      <div><div className="font-bold text-slate-800">{word.english}</div><div className="text-sm text-slate-500">{word.polish}</div></div>
-                      <div className="flex items-center gap-3">
-                          <span className={`text-xs px-2 py-1 rounded-full ${word.status === WordStatus.New ? 'bg-blue-100 text-blue-700' : word.status === WordStatus.Learned ? 'bg-green-100 text-green-700' : 'bg-yellow-100 text-yellow-700'}`}>{word.status}</span>
-                          <button onClick={() => { const newWords = words.filter(w => w.id !== word.id); setWords(newWords); storageService.saveWords(newWords); updateStats(newWords); }} className="text-slate-300 hover:text-red-500">🗑️</button>
-                      </div>
-                  </div>
-              ))}
-          </div>
-      </div>
-  )};
+      </WordList>
+  );
 
   const renderSettings = () => (
       <div className="space-y-6 max-w-lg pb-32 md:pb-10">
@@ -406,6 +637,22 @@ const App: React.FC = () => {
                               className="w-full p-2 border border-slate-300 rounded-lg bg-white focus:ring-2 focus:ring-indigo-500 outline-none transition-all"
                           />
                       </div>
+                      <label className="flex items-start gap-3 cursor-pointer">
+                          <input 
+                              type="checkbox" 
+                              checked={settings.useStreakFreezes} 
+                              onChange={(e) => { 
+                                  const newS = { ...settings, useStreakFreezes: e.target.checked }; 
+                                  setSettings(newS); 
+                                  storageService.saveSettings(newS); 
+                              }} 
+                              className="mt-1"
+                          />
+                          <span>
+                              <span className="block text-sm text-slate-700">Zamrożenie serii ❄️</span>
+                              <span className="block text-[10px] text-slate-400">Za każdy tydzień nauki dostajesz zamrożenie (max {MAX_STREAK_FREEZES}), które ratuje serię, gdy opuścisz dzień.</span>
+                          </span>
+                      </label>
                   </div>
               </div>
 
@@ -415,6 +662,9 @@ const App: React.FC = () => {
                        Przenoś postępy między urządzeniami. <br/>
                        <span className="text-red-500">Uwaga:</span> Twoje słowa są zapisane tylko w tej przeglądarce.
                    </p>
+                   <p className="text-[10px] text-slate-400 -mt-2 mb-4">
+                       Magazyn danych: {storageService.getBackend() === 'indexeddb' ? 'IndexedDB' : 'localStorage (tryb awaryjny, limit ok. 5 MB)'}
+                   </p>
                    
                    {/* TEXT BACKUP MODE */}
                    {textBackupMode !== 'none' ? (
@@ -501,10 +751,18 @@ const App: React.FC = () => {
                           <option value="gemini">Google Gemini</option>
                           <option value="perplexity">Perplexity AI</option>
                           <option value="custom">Własne API (np. subnp.com / Kie-API)</option>
+                          <option value="local">Lokalny model (Ollama / llama.cpp)</option>
                           <option value="free">Tryb podstawowy (Offline)</option>
                       </select>
                   </div>
 
+                  {settings.aiProvider === 'free' && (
+                    <p className="mt-2 p-3 bg-slate-50 rounded-lg border border-slate-100 text-xs text-slate-500">
+                        Działa bez internetu i klucza API: słowa, tłumaczenia i zdania pochodzą z wbudowanego słownika (ok. 200 słów w 9 kategoriach).
+                        Sprawdzanie odpowiedzi akceptuje synonimy ze słownika.
+                    </p>
+                  )}
+
                   {settings.aiProvider === 'gemini' && (
                     <div className="mt-2 p-3 bg-blue-50 rounded-lg border border-blue-100">
                         <label className="block text-xs font-bold text-blue-900 mb-1">Model Gemini (Limit / Szybkość)</label>
@@ -531,15 +789,22 @@ const App: React.FC = () => {
                       <select value={settings.imageProvider || 'hf_space'} onChange={(e) => { const newS = { ...settings, imageProvider: e.target.value as any }; setSettings(newS); storageService.saveSettings(newS); }} className="w-full p-2 border rounded-lg bg-white">
                           <option value="hf_space">Darmowe Spaces (SDXL Lightning) ⚡</option>
                           <option value="pollinations">Pollinations AI (Zapasowe)</option>
-                          <option value="auto">Automatycznie</option>
+                          <option value="auto">Automatycznie (kolejno, z zapasowymi)</option>
                           <option value="custom">Własne API (np. DALL-E przez subnp)</option>
                           <option value="gemini">Google Gemini Imagen</option>
                           <option value="deepai">DeepAI</option>
                           <option value="huggingface">Hugging Face (Limitowane)</option>
                       </select>
                       <p className="text-[10px] text-slate-400 mt-1">SDXL Lightning jest najszybszy i całkowicie darmowy.</p>
+
+                      {settings.imageProvider === 'auto' && (
+                          <ImageProviderSettings
+                              settings={settings}
+                              onUpdate={(patch) => { const newS = { ...settings, ...patch }; setSettings(newS); storageService.saveSettings(newS); }}
+                          />
+                      )}
                       
-                      {settings.imageProvider === 'pollinations' && (
+                      {(settings.imageProvider === 'pollinations' || settings.imageProvider === 'auto') && (
                           <div className="mt-2">
                               <input 
                                   type="text" 
@@ -565,6 +830,11 @@ const App: React.FC = () => {
                        </select>
                   </div>
 
+                  <ImageCacheSettings
+                      settings={settings}
+                      onUpdate={(patch) => { const newS = { ...settings, ...patch }; setSettings(newS); storageService.saveSettings(newS); }}
+                  />
+
                   {settings.aiProvider === 'custom' && (
                     <div className="p-4 bg-amber-50 rounded-lg border border-amber-100 space-y-3 mt-4">
                          <div className="flex justify-between items-center">
@@ -588,6 +858,13 @@ const App: React.FC = () => {
                     </div>
                   )}
 
+                  {settings.aiProvider === 'local' && (
+                    <LocalModelSettings
+                        settings={settings}
+                        onUpdate={(patch) => { const newS = { ...settings, ...patch }; setSettings(newS); storageService.saveSettings(newS); }}
+                    />
+                  )}
+
                   {settings.aiProvider === 'perplexity' && (
                     <div className="p-4 bg-indigo-50 rounded-lg border border-indigo-100 mt-4">
                          <h4 className="text-sm font-semibold text-indigo-900 mb-2">Perplexity API Key</h4>
@@ -617,10 +894,38 @@ const App: React.FC = () => {
 
   return (
     <Layout activeTab={activeTab} onTabChange={setActiveTab}>
+        {(!isOnline || pendingCount > 0) && (
+            <div className={`mb-4 px-4 py-2 rounded-xl text-sm border ${isOnline ? 'bg-indigo-50 border-indigo-100 text-indigo-800' : 'bg-amber-50 border-amber-100 text-amber-800'}`}>
+                {!isOnline && 'Tryb offline: fiszki, dopasowywanie i pisanie działają bez internetu. '}
+                {pendingCount > 0 && `Zadania AI w kolejce: ${pendingCount}${isOnline ? '' : ' (zostaną wykonane po powrocie do sieci)'}.`}
+            </div>
+        )}
         {activeTab === 'dashboard' && renderDashboard()}
         {activeTab === 'words' && renderWordList()}
         {activeTab === 'settings' && renderSettings()}
-        <AddWordModal isOpen={isAddModalOpen} onClose={() => setIsAddModalOpen(false)} onSave={handleManualAddWord} currentLevel={settings.level} />
+        <AddWordModal isOpen={isAddModalOpen} onClose={() => setIsAddModalOpen(false)} onSave={handleManualAddWord} currentLevel={settings.level} existingWords={words} />
+        <CsvImportModal isOpen={isCsvImportOpen} onClose={() => setIsCsvImportOpen(false)} onImport={handleCsvImport} existingWords={words} currentLevel={settings.level} />
+        <AnkiImportModal isOpen={isAnkiImportOpen} onClose={() => setIsAnkiImportOpen(false)} onImport={handleAnkiImport} existingWords={words} currentLevel={settings.level} />
+        {selectedWord && (
+            <WordDetailPanel
+                key={selectedWord.id}
+                word={selectedWord}
+                onSave={handleWordSave}
+                onDelete={handleWordDelete}
+                onClose={() => setSelectedWordId(null)}
+            />
+        )}
+        {pendingImport && (
+            <ImportPreviewModal
+                preview={pendingImport.preview}
+                report={pendingImport.prepared.report}
+                incomingCount={pendingImport.prepared.words.length}
+                localCount={words.length}
+                onMerge={() => commitImport('merge')}
+                onReplace={() => commitImport('replace')}
+                onCancel={() => setPendingImport(null)}
+            />
+        )}
     </Layout>
   );
 };
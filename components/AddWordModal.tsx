@@ -1,18 +1,28 @@
 import React, { useState } from 'react';
 import { geminiService } from '../services/gemini';
-import { Word, WordStatus, LanguageLevel } from '../types';
+import { offlineQueue } from '../services/offlineQueue';
+import { finalizeDetails } from '../services/wordDetails';
+import { Word, WordStatus, LanguageLevel, WordDetails } from '../types';
+import BulkAddForm from './BulkAddForm';
+import WordDetailsFields from './WordDetailsFields';
 
 interface AddWordModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onSave: (word: Word) => void;
+  onSave: (words: Word[]) => void;
   currentLevel: LanguageLevel;
+  existingWords?: Word[];
 }
 
-const AddWordModal: React.FC<AddWordModalProps> = ({ isOpen, onClose, onSave, currentLevel }) => {
+const AddWordModal: React.FC<AddWordModalProps> = ({ isOpen, onClose, onSave, currentLevel, existingWords = [] }) => {
+  const [isBulk, setIsBulk] = useState(false);
   const [polish, setPolish] = useState('');
   const [english, setEnglish] = useState('');
   const [category, setCategory] = useState('własne');
+  const [showDetails, setShowDetails] = useState(false);
+  const [details, setDetails] = useState<WordDetails>({});
+  // Bumped after saving so the detail fields start empty again
+  const [detailsKey, setDetailsKey] = useState(0);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
 
@@ -28,11 +38,18 @@ const AddWordModal: React.FC<AddWordModalProps> = ({ isOpen, onClose, onSave, cu
         return;
     }
 
+    const isOffline = !offlineQueue.canUseAi();
+    if (isOffline && (!polish.trim() || !english.trim())) {
+        setError('Brak internetu: wpisz oba tłumaczenia, zdanie przykładowe dodamy po powrocie do sieci.');
+        return;
+    }
+
     setIsLoading(true);
 
     let finalPolish = polish.trim();
     let finalEnglish = english.trim();
     let finalExample = '';
+    let aiDetails: WordDetails = {};
 
     try {
         // Case 1: Only Polish -> Translate to EN & Generate Sentence
@@ -40,15 +57,17 @@ const AddWordModal: React.FC<AddWordModalProps> = ({ isOpen, onClose, onSave, cu
             const result = await geminiService.translateWord(finalPolish, 'pl');
             finalEnglish = result.translation;
             finalExample = result.exampleSentence;
+            aiDetails = result.details || {};
         } 
         // Case 2: Only English -> Translate to PL & Generate Sentence
         else if (!finalPolish && finalEnglish) {
             const result = await geminiService.translateWord(finalEnglish, 'en');
             finalPolish = result.translation;
             finalExample = result.exampleSentence;
+            aiDetails = result.details || {};
         } 
         // Case 3: Both provided -> Generate ONLY the Example Sentence
-        else if (finalPolish && finalEnglish) {
+        else if (finalPolish && finalEnglish && !isOffline) {
             // Pass the Polish translation as context to ensure the example sentence matches the intended meaning
             finalExample = await geminiService.generateExampleSentence(finalEnglish, finalPolish);
         }
@@ -66,13 +85,24 @@ const AddWordModal: React.FC<AddWordModalProps> = ({ isOpen, onClose, onSave, cu
             attempts: 0,
             correct: 0,
             aiGenerated: false, // Explicitly false as it was user-initiated
-            exampleSentence: finalExample || undefined
+            createdAt: Date.now(),
+            exampleSentence: finalExample || undefined,
+            // What the user typed wins over the AI's suggestions
+            ...aiDetails,
+            ...finalizeDetails(details),
         };
 
-        onSave(newWord);
+        if (isOffline) {
+            offlineQueue.add({ type: 'exampleSentence', wordId: newWord.id, english: finalEnglish, polish: finalPolish });
+        }
+
+        onSave([newWord]);
         // Reset form
         setPolish('');
         setEnglish('');
+        setDetails({});
+        setDetailsKey(k => k + 1);
+        setShowDetails(false);
         onClose();
 
     } catch (err) {
@@ -83,15 +113,32 @@ const AddWordModal: React.FC<AddWordModalProps> = ({ isOpen, onClose, onSave, cu
     }
   };
 
+  const handleBulkSave = (words: Word[]) => {
+    onSave(words);
+    setIsBulk(false);
+    onClose();
+  };
+
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4">
-      <div className="bg-white rounded-2xl shadow-xl w-full max-w-md overflow-hidden animate-fade-in-up">
+      <div className={`bg-white rounded-2xl shadow-xl w-full ${isBulk ? 'max-w-2xl' : 'max-w-md'} overflow-hidden animate-fade-in-up`}>
         <div className="p-6">
-            <h2 className="text-2xl font-bold text-slate-800 mb-2">Dodaj nowe słowo</h2>
+            <div className="flex justify-between items-start mb-2 gap-2">
+                <h2 className="text-2xl font-bold text-slate-800">{isBulk ? 'Dodaj wiele słów' : 'Dodaj nowe słowo'}</h2>
+                <div className="flex bg-slate-100 rounded-lg p-1 text-xs shrink-0">
+                    <button type="button" onClick={() => setIsBulk(false)} className={`px-2 py-1 rounded-md ${!isBulk ? 'bg-white shadow-sm font-bold text-slate-800' : 'text-slate-500'}`}>Jedno</button>
+                    <button type="button" onClick={() => setIsBulk(true)} className={`px-2 py-1 rounded-md ${isBulk ? 'bg-white shadow-sm font-bold text-slate-800' : 'text-slate-500'}`}>Wiele naraz</button>
+                </div>
+            </div>
             <p className="text-sm text-slate-500 mb-6">
-                Wpisz słowo po polsku LUB po angielsku (AI przetłumaczy). Jeśli wpiszesz oba, AI doda zdanie przykładowe!
+                {isBulk
+                    ? 'Wklej listę słówek. AI uzupełni brakujące tłumaczenia i zdania przykładowe.'
+                    : 'Wpisz słowo po polsku LUB po angielsku (AI przetłumaczy). Jeśli wpiszesz oba, AI doda zdanie przykładowe!'}
             </p>
 
+            {isBulk ? (
+                <BulkAddForm onSave={handleBulkSave} onCancel={onClose} existingWords={existingWords} currentLevel={currentLevel} />
+            ) : (
             <form onSubmit={handleSubmit} className="space-y-4">
                 <div>
                     <label className="block text-sm font-medium text-slate-700 mb-1">Po Polsku</label>
@@ -126,6 +173,17 @@ const AddWordModal: React.FC<AddWordModalProps> = ({ isOpen, onClose, onSave, cu
                     />
                 </div>
 
+                <div>
+                    <button type="button" onClick={() => setShowDetails(!showDetails)} className="text-sm text-indigo-600 hover:text-indigo-800 font-medium">
+                        {showDetails ? '▾' : '▸'} Szczegóły (opcjonalne)
+                    </button>
+                    {showDetails && (
+                        <div className="mt-3 max-h-64 overflow-y-auto pr-1">
+                            <WordDetailsFields key={detailsKey} value={details} onChange={setDetails} />
+                        </div>
+                    )}
+                </div>
+
                 {error && <div className="text-red-500 text-sm">{error}</div>}
 
                 <div className="flex gap-3 mt-6">
@@ -149,6 +207,7 @@ const AddWordModal: React.FC<AddWordModalProps> = ({ isOpen, onClose, onSave, cu
                     </button>
                 </div>
             </form>
+            )}
         </div>
       </div>
     </div>
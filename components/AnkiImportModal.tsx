@@ -0,0 +1,172 @@
+import React, { useState, useMemo, useRef } from 'react';
+import { Word, LanguageLevel } from '../types';
+import { ankiService, AnkiDeck, AnkiField, AnkiMapping } from '../services/anki';
+
+interface AnkiImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // images: english word -> data URL, stored in the image cache
+  onImport: (words: Word[], images: Record<string, string>) => void;
+  existingWords: Word[];
+  currentLevel: LanguageLevel;
+}
+
+const ANKI_FIELDS: { field: AnkiField; label: string }[] = [
+  { field: 'polish', label: 'Po polsku *' },
+  { field: 'english', label: 'Po angielsku *' },
+  { field: 'exampleSentence', label: 'Zdanie przykładowe' },
+];
+
+const PREVIEW_ROWS = 8;
+
+const AnkiImportModal: React.FC<AnkiImportModalProps> = ({ isOpen, onClose, onImport, existingWords, currentLevel }) => {
+  const [deck, setDeck] = useState<AnkiDeck | null>(null);
+  const [mapping, setMapping] = useState<AnkiMapping | null>(null);
+  const [keepSchedule, setKeepSchedule] = useState(true);
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const results = useMemo(
+    () => deck && mapping ? ankiService.buildWords(deck, mapping, keepSchedule, existingWords, currentLevel) : [],
+    [deck, mapping, keepSchedule, existingWords, currentLevel]
+  );
+
+  if (!isOpen) return null;
+
+  const handleClose = () => {
+    setDeck(null);
+    setMapping(null);
+    setError('');
+    onClose();
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsLoading(true);
+    setError('');
+    try {
+      const loaded = await ankiService.readPackage(await file.arrayBuffer());
+      if (loaded.notes.length === 0) throw new Error('Talia nie zawiera żadnych notatek.');
+      setDeck(loaded);
+      setMapping(ankiService.guessMapping(loaded.fieldNames));
+    } catch (err: any) {
+      console.error('Anki import error', err);
+      setError(err?.message || 'Nie udało się odczytać pliku .apkg');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const valid = results.filter(r => r.word && !(skipDuplicates && r.duplicate));
+  const errors = results.filter(r => r.error).length;
+  const duplicates = results.filter(r => r.duplicate).length;
+  const withImages = valid.filter(r => r.image).length;
+
+  const handleImport = () => {
+    const images: Record<string, string> = {};
+    valid.forEach(r => { if (r.image) images[r.word!.english.toLowerCase().trim()] = r.image; });
+    onImport(valid.map(r => r.word!), images);
+    handleClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-2xl max-h-[90vh] flex flex-col overflow-hidden animate-fade-in-up">
+        <div className="p-6 pb-2">
+            <h2 className="text-2xl font-bold text-slate-800 mb-1">Import talii Anki (.apkg)</h2>
+            <p className="text-sm text-slate-500">
+                {deck
+                    ? `Znaleziono ${deck.notes.length} notatek. Wskaż, które pola zawierają słowa.`
+                    : 'Wybierz plik wyeksportowany z Anki (Plik → Eksportuj → "Talia Anki").'}
+            </p>
+        </div>
+
+        {!deck ? (
+            <div className="p-6 pt-2 space-y-3">
+                <button
+                    onClick={() => fileInputRef.current?.click()}
+                    disabled={isLoading}
+                    className="w-full flex items-center justify-center gap-2 bg-white border border-slate-300 text-slate-700 py-3 rounded-xl font-medium hover:bg-slate-50 transition-colors shadow-sm disabled:opacity-50"
+                >
+                    {isLoading ? <span className="animate-spin">⏳</span> : <span>📂</span>} {isLoading ? 'Wczytywanie talii...' : 'Wybierz plik .apkg'}
+                </button>
+                <input type="file" ref={fileInputRef} onChange={handleFileChange} accept=".apkg" className="hidden" />
+                {error && <p className="text-sm text-red-600 bg-red-50 p-3 rounded-lg">{error}</p>}
+                <button onClick={handleClose} className="w-full py-3 px-4 rounded-xl border border-slate-300 text-slate-600 font-medium hover:bg-slate-50 transition-colors">Anuluj</button>
+            </div>
+        ) : mapping && (
+            <>
+                <div className="px-6 space-y-3 overflow-y-auto">
+                    <div className="grid grid-cols-3 gap-2">
+                        {ANKI_FIELDS.map(f => (
+                            <label key={f.field} className="text-xs">
+                                <span className="block text-slate-500 mb-1">{f.label}</span>
+                                <select
+                                    value={mapping[f.field] ?? ''}
+                                    onChange={(e) => setMapping({ ...mapping, [f.field]: e.target.value === '' ? null : Number(e.target.value) })}
+                                    className="w-full p-2 border border-slate-300 rounded-lg bg-white text-sm"
+                                >
+                                    <option value="">— pomiń —</option>
+                                    {deck.fieldNames.map((name, i) => <option key={name} value={i}>{name}</option>)}
+                                </select>
+                            </label>
+                        ))}
+                    </div>
+
+                    <label className="flex items-start gap-2 text-sm cursor-pointer">
+                        <input type="checkbox" checked={keepSchedule} onChange={(e) => setKeepSchedule(e.target.checked)} className="mt-1" />
+                        <span className="text-slate-600">
+                            Przenieś interwały powtórek z Anki
+                            <span className="block text-xs text-slate-400">Bez tej opcji wszystkie słowa zaczynają jako nowe.</span>
+                        </span>
+                    </label>
+
+                    <div className="border border-slate-100 rounded-lg overflow-hidden text-xs">
+                        {results.slice(0, PREVIEW_ROWS).map(r => (
+                            <div key={r.row} className={`px-3 py-2 border-b border-slate-100 flex justify-between gap-2 ${r.error ? 'bg-red-50' : r.duplicate ? 'bg-amber-50' : 'bg-white'}`}>
+                                <span className="text-slate-400 w-8 shrink-0">#{r.row}</span>
+                                <span className="flex-1 text-slate-700 truncate">
+                                    {r.word ? `${r.word.polish} → ${r.word.english} (${r.word.category})` : ''}
+                                    {r.image && ' 🖼️'}
+                                </span>
+                                {r.word && keepSchedule && r.word.lastReview && (
+                                    <span className="text-slate-400 shrink-0">powtórka {new Date(r.word.nextReview).toLocaleDateString('pl-PL')}</span>
+                                )}
+                                <span className={r.error ? 'text-red-600' : 'text-amber-600'}>{r.error || (r.duplicate ? 'Duplikat' : '')}</span>
+                            </div>
+                        ))}
+                        {results.length > PREVIEW_ROWS && <div className="px-3 py-1 text-slate-400 bg-slate-50">...i {results.length - PREVIEW_ROWS} kolejnych notatek</div>}
+                    </div>
+
+                    <div className="text-xs text-slate-500 flex flex-wrap gap-x-4 gap-y-1">
+                        <span>Do importu: <b className="text-slate-800">{valid.length}</b></span>
+                        {withImages > 0 && <span>Z obrazkami: {withImages}</span>}
+                        {errors > 0 && <span className="text-red-600">Pominięte notatki: {errors}</span>}
+                        {duplicates > 0 && (
+                            <label className="flex items-center gap-1 text-amber-600 cursor-pointer">
+                                <input type="checkbox" checked={skipDuplicates} onChange={(e) => setSkipDuplicates(e.target.checked)} />
+                                Pomiń duplikaty ({duplicates})
+                            </label>
+                        )}
+                    </div>
+                </div>
+
+                <div className="flex gap-3 p-6">
+                    <button onClick={handleClose} className="flex-1 py-3 px-4 rounded-xl border border-slate-300 text-slate-600 font-medium hover:bg-slate-50 transition-colors">Anuluj</button>
+                    <button onClick={handleImport} disabled={valid.length === 0} className="flex-1 py-3 px-4 rounded-xl bg-indigo-600 text-white font-bold hover:bg-indigo-700 transition-colors shadow-lg shadow-indigo-200 disabled:opacity-50">
+                        Importuj {valid.length} słów
+                    </button>
+                </div>
+            </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AnkiImportModal;
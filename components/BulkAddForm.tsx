@@ -0,0 +1,173 @@
+import React, { useState } from 'react';
+import { geminiService } from '../services/gemini';
+import { bulkPasteService, PasteOrder, PasteRow } from '../services/bulkPaste';
+import { Word, WordStatus, LanguageLevel } from '../types';
+
+interface BulkAddFormProps {
+  onSave: (words: Word[]) => void;
+  onCancel: () => void;
+  existingWords: Word[];
+  currentLevel: LanguageLevel;
+}
+
+// Words per AI request – keeps prompts short enough for small models
+const BATCH_SIZE = 20;
+
+const BulkAddForm: React.FC<BulkAddFormProps> = ({ onSave, onCancel, existingWords, currentLevel }) => {
+  const [text, setText] = useState('');
+  const [order, setOrder] = useState<PasteOrder>('pl-en');
+  const [category, setCategory] = useState('własne');
+  const [rows, setRows] = useState<PasteRow[] | null>(null);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState('');
+
+  const updateRows = (next: PasteRow[]) => setRows(bulkPasteService.markDuplicates(next, existingWords));
+
+  const handlePreview = () => {
+    setError('');
+    updateRows(bulkPasteService.parse(text, order, category));
+  };
+
+  const swapRow = (id: string) => {
+    if (!rows) return;
+    updateRows(rows.map(r => r.id === id ? { ...r, polish: r.english, english: r.polish, exampleSentence: undefined } : r));
+  };
+
+  const removeRow = (id: string) => {
+    if (!rows) return;
+    updateRows(rows.filter(r => r.id !== id));
+  };
+
+  const handleComplete = async () => {
+    if (!rows) return;
+    const pending = rows.filter(bulkPasteService.needsCompletion);
+    setError('');
+    setProgress({ done: 0, total: pending.length });
+
+    let current = rows;
+    try {
+      for (let i = 0; i < pending.length; i += BATCH_SIZE) {
+        const batch = pending.slice(i, i + BATCH_SIZE);
+        const results = await geminiService.completeWords(batch.map(r => ({ polish: r.polish, english: r.english })));
+        const byId = new Map(batch.map((r, idx) => [r.id, results[idx]]));
+        current = current.map(r => {
+          const result = byId.get(r.id);
+          if (!result) return r;
+          return { ...r, polish: result.polish, english: result.english, exampleSentence: result.exampleSentence || r.exampleSentence };
+        });
+        updateRows(current);
+        setProgress({ done: Math.min(i + BATCH_SIZE, pending.length), total: pending.length });
+      }
+    } catch (err) {
+      console.error(err);
+      setError('Błąd AI. Zapisane zostaną tylko słowa z obiema stronami tłumaczenia.');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const savable = (rows || []).filter(r => !r.error && !r.duplicate && r.polish && r.english);
+  const pendingCount = (rows || []).filter(bulkPasteService.needsCompletion).length;
+
+  const handleSave = () => {
+    const now = Date.now();
+    onSave(savable.map(r => ({
+      id: Math.random().toString(36).substr(2, 9),
+      polish: r.polish,
+      english: r.english,
+      category: r.category || 'własne',
+      level: currentLevel,
+      status: WordStatus.New,
+      nextReview: now,
+      lastReview: null,
+      attempts: 0,
+      correct: 0,
+      aiGenerated: false,
+      createdAt: now,
+      exampleSentence: r.exampleSentence || undefined,
+    })));
+  };
+
+  const rowStatus = (r: PasteRow) => {
+    if (r.error) return <span className="text-red-600">{r.error}</span>;
+    if (r.duplicate) return <span className="text-amber-600">Duplikat</span>;
+    if (!r.polish || !r.english) return <span className="text-indigo-500">AI uzupełni</span>;
+    if (!r.exampleSentence) return <span className="text-slate-400">+ zdanie AI</span>;
+    return <span className="text-green-600" title={r.exampleSentence}>✓</span>;
+  };
+
+  if (!rows) {
+    return (
+      <div className="space-y-4">
+        <textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder={'samochód - car\ncar;samochód;transport\nkot'}
+          className="w-full h-40 p-3 border border-slate-300 rounded-xl font-mono text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+        />
+        <div className="grid grid-cols-2 gap-3">
+          <label className="text-sm">
+            <span className="block font-medium text-slate-700 mb-1">Kolejność</span>
+            <select value={order} onChange={(e) => setOrder(e.target.value as PasteOrder)} className="w-full p-2 border border-slate-300 rounded-xl bg-white">
+              <option value="pl-en">polski – angielski</option>
+              <option value="en-pl">angielski – polski</option>
+            </select>
+          </label>
+          <label className="text-sm">
+            <span className="block font-medium text-slate-700 mb-1">Domyślna kategoria</span>
+            <input value={category} onChange={(e) => setCategory(e.target.value)} className="w-full p-2 border border-slate-300 rounded-xl" />
+          </label>
+        </div>
+        <p className="text-xs text-slate-400">Jedno słowo na linię. Separatory: tabulator, średnik, " - " lub "=". Trzecia kolumna to kategoria.</p>
+        <div className="flex gap-3">
+          <button type="button" onClick={onCancel} className="flex-1 py-3 px-4 rounded-xl border border-slate-300 text-slate-600 font-medium hover:bg-slate-50 transition-colors">Anuluj</button>
+          <button type="button" onClick={handlePreview} disabled={!text.trim()} className="flex-1 py-3 px-4 rounded-xl bg-indigo-600 text-white font-bold hover:bg-indigo-700 transition-colors shadow-lg shadow-indigo-200 disabled:opacity-50">Podgląd</button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="max-h-72 overflow-y-auto border border-slate-100 rounded-lg text-xs">
+        <table className="w-full">
+          <thead className="bg-slate-50 text-slate-500 sticky top-0">
+            <tr><th className="p-2 text-left">#</th><th className="p-2 text-left">Polski</th><th className="p-2 text-left">Angielski</th><th className="p-2 text-left">Kategoria</th><th className="p-2"></th><th className="p-2"></th></tr>
+          </thead>
+          <tbody>
+            {rows.map(r => (
+              <tr key={r.id} className={`border-t border-slate-100 ${r.error ? 'bg-red-50' : r.duplicate ? 'bg-amber-50' : ''}`}>
+                <td className="p-2 text-slate-400">{r.line}</td>
+                <td className="p-2 text-slate-800">{r.polish || <span className="text-slate-300">—</span>}</td>
+                <td className="p-2 text-slate-800">{r.english || <span className="text-slate-300">—</span>}</td>
+                <td className="p-2 text-slate-500">{r.category}</td>
+                <td className="p-2">{rowStatus(r)}</td>
+                <td className="p-2 whitespace-nowrap text-right">
+                  <button type="button" onClick={() => swapRow(r.id)} title="Zamień strony" className="text-slate-400 hover:text-indigo-600 px-1">⇄</button>
+                  <button type="button" onClick={() => removeRow(r.id)} title="Usuń" className="text-slate-300 hover:text-red-500 px-1">✕</button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {progress && <div className="text-sm text-indigo-600">Uzupełnianie {progress.done}/{progress.total}...</div>}
+      {error && <div className="text-red-500 text-sm">{error}</div>}
+
+      <div className="flex gap-2">
+        <button type="button" onClick={() => setRows(null)} disabled={!!progress} className="py-3 px-4 rounded-xl border border-slate-300 text-slate-600 font-medium hover:bg-slate-50 transition-colors disabled:opacity-50">Wstecz</button>
+        {pendingCount > 0 && (
+          <button type="button" onClick={handleComplete} disabled={!!progress} className="flex-1 py-3 px-4 rounded-xl border border-indigo-200 text-indigo-700 font-medium hover:bg-indigo-50 transition-colors disabled:opacity-50">
+            {progress ? <span className="animate-spin inline-block h-4 w-4 border-2 border-indigo-600 border-t-transparent rounded-full"></span> : `✨ Uzupełnij z AI (${pendingCount})`}
+          </button>
+        )}
+        <button type="button" onClick={handleSave} disabled={savable.length === 0 || !!progress} className="flex-1 py-3 px-4 rounded-xl bg-indigo-600 text-white font-bold hover:bg-indigo-700 transition-colors shadow-lg shadow-indigo-200 disabled:opacity-50">
+          Zapisz ({savable.length})
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default BulkAddForm;
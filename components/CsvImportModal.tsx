@@ -0,0 +1,184 @@
+import React, { useState, useMemo, useRef } from 'react';
+import { Word, LanguageLevel } from '../types';
+import { csvService, CSV_FIELDS, CsvMapping } from '../services/csv';
+
+interface CsvImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onImport: (words: Word[]) => void;
+  existingWords: Word[];
+  currentLevel: LanguageLevel;
+}
+
+const DELIMITERS = [
+  { value: ',', label: 'Przecinek (,)' },
+  { value: ';', label: 'Średnik (;)' },
+  { value: '\t', label: 'Tabulator (TSV)' },
+];
+
+const PREVIEW_ROWS = 8;
+
+const CsvImportModal: React.FC<CsvImportModalProps> = ({ isOpen, onClose, onImport, existingWords, currentLevel }) => {
+  const [step, setStep] = useState<'source' | 'mapping'>('source');
+  const [rawText, setRawText] = useState('');
+  const [delimiter, setDelimiter] = useState(',');
+  const [mapping, setMapping] = useState<CsvMapping | null>(null);
+  const [hasHeader, setHasHeader] = useState(true);
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const rows = useMemo(() => step === 'mapping' ? csvService.parse(rawText, delimiter) : [], [step, rawText, delimiter]);
+  const columnCount = useMemo(() => rows.reduce((max, r) => Math.max(max, r.length), 0), [rows]);
+
+  const results = useMemo(
+    () => mapping ? csvService.buildWords(rows, mapping, hasHeader, existingWords, currentLevel) : [],
+    [rows, mapping, hasHeader, existingWords, currentLevel]
+  );
+
+  if (!isOpen) return null;
+
+  const reset = () => {
+    setStep('source');
+    setRawText('');
+    setMapping(null);
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const startMapping = (text: string) => {
+    if (!text.trim()) return;
+    const detected = csvService.detectDelimiter(text);
+    const firstRow = csvService.parse(text, detected)[0] || [];
+    const guess = csvService.guessMapping(firstRow);
+    setRawText(text);
+    setDelimiter(detected);
+    setMapping(guess.mapping);
+    setHasHeader(guess.hasHeader);
+    setStep('mapping');
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (event) => startMapping(event.target?.result as string);
+    reader.readAsText(file);
+    e.target.value = '';
+  };
+
+  const valid = results.filter(r => r.word && !(skipDuplicates && r.duplicate));
+  const errors = results.filter(r => r.error).length;
+  const duplicates = results.filter(r => r.duplicate).length;
+  const columnName = (idx: number) => hasHeader && rows[0]?.[idx] ? rows[0][idx] : `Kolumna ${idx + 1}`;
+
+  const handleImport = () => {
+    onImport(valid.map(r => r.word!));
+    handleClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-2xl max-h-[90vh] flex flex-col overflow-hidden animate-fade-in-up">
+        <div className="p-6 pb-2">
+            <h2 className="text-2xl font-bold text-slate-800 mb-1">Import z arkusza (CSV / TSV)</h2>
+            <p className="text-sm text-slate-500">
+                {step === 'source'
+                    ? 'Wybierz plik .csv/.tsv albo wklej komórki skopiowane z Excela lub Arkuszy Google.'
+                    : 'Wskaż, która kolumna zawiera które pole, i sprawdź podgląd.'}
+            </p>
+        </div>
+
+        {step === 'source' ? (
+            <div className="p-6 pt-2 space-y-3">
+                <button
+                    onClick={() => fileInputRef.current?.click()}
+                    className="w-full flex items-center justify-center gap-2 bg-white border border-slate-300 text-slate-700 py-3 rounded-xl font-medium hover:bg-slate-50 transition-colors shadow-sm"
+                >
+                    <span>📂</span> Wybierz plik
+                </button>
+                <input type="file" ref={fileInputRef} onChange={handleFileChange} accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values" className="hidden" />
+                <textarea
+                    className="w-full h-40 p-2 text-xs font-mono border rounded-lg bg-slate-50"
+                    value={rawText}
+                    onChange={(e) => setRawText(e.target.value)}
+                    placeholder={'polish,english,category\nsamochód,car,transport'}
+                />
+                <div className="flex gap-3">
+                    <button onClick={handleClose} className="flex-1 py-3 px-4 rounded-xl border border-slate-300 text-slate-600 font-medium hover:bg-slate-50 transition-colors">Anuluj</button>
+                    <button onClick={() => startMapping(rawText)} disabled={!rawText.trim()} className="flex-1 py-3 px-4 rounded-xl bg-indigo-600 text-white font-bold hover:bg-indigo-700 transition-colors shadow-lg shadow-indigo-200 disabled:opacity-50">Dalej</button>
+                </div>
+            </div>
+        ) : mapping && (
+            <>
+                <div className="px-6 space-y-3 overflow-y-auto">
+                    <div className="flex flex-wrap gap-4 items-center text-sm">
+                        <label className="flex items-center gap-2">
+                            <span className="text-slate-500">Separator</span>
+                            <select value={delimiter} onChange={(e) => setDelimiter(e.target.value)} className="p-1 border border-slate-300 rounded-lg bg-white">
+                                {DELIMITERS.map(d => <option key={d.label} value={d.value}>{d.label}</option>)}
+                            </select>
+                        </label>
+                        <label className="flex items-center gap-2 cursor-pointer">
+                            <input type="checkbox" checked={hasHeader} onChange={(e) => setHasHeader(e.target.checked)} />
+                            <span className="text-slate-600">Pierwszy wiersz to nagłówek</span>
+                        </label>
+                    </div>
+
+                    <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+                        {CSV_FIELDS.map(f => (
+                            <label key={f.field} className="text-xs">
+                                <span className="block text-slate-500 mb-1">{f.label}{f.required && ' *'}</span>
+                                <select
+                                    value={mapping[f.field] ?? ''}
+                                    onChange={(e) => setMapping({ ...mapping, [f.field]: e.target.value === '' ? null : Number(e.target.value) })}
+                                    className="w-full p-2 border border-slate-300 rounded-lg bg-white text-sm"
+                                >
+                                    <option value="">— pomiń —</option>
+                                    {Array.from({ length: columnCount }, (_, i) => (
+                                        <option key={i} value={i}>{columnName(i)}</option>
+                                    ))}
+                                </select>
+                            </label>
+                        ))}
+                    </div>
+
+                    <div className="border border-slate-100 rounded-lg overflow-hidden text-xs">
+                        {results.slice(0, PREVIEW_ROWS).map(r => (
+                            <div key={r.row} className={`px-3 py-2 border-b border-slate-100 flex justify-between gap-2 ${r.error ? 'bg-red-50' : r.duplicate ? 'bg-amber-50' : 'bg-white'}`}>
+                                <span className="text-slate-400 w-8 shrink-0">#{r.row}</span>
+                                <span className="flex-1 text-slate-700 truncate">{r.word ? `${r.word.polish} → ${r.word.english} (${r.word.category}, ${r.word.level})` : ''}</span>
+                                <span className={r.error ? 'text-red-600' : 'text-amber-600'}>{r.error || (r.duplicate ? 'Duplikat' : '')}</span>
+                            </div>
+                        ))}
+                        {results.length > PREVIEW_ROWS && <div className="px-3 py-1 text-slate-400 bg-slate-50">...i {results.length - PREVIEW_ROWS} kolejnych wierszy</div>}
+                    </div>
+
+                    <div className="text-xs text-slate-500 flex flex-wrap gap-x-4 gap-y-1">
+                        <span>Do importu: <b className="text-slate-800">{valid.length}</b></span>
+                        {errors > 0 && <span className="text-red-600">Błędne wiersze: {errors}</span>}
+                        {duplicates > 0 && (
+                            <label className="flex items-center gap-1 text-amber-600 cursor-pointer">
+                                <input type="checkbox" checked={skipDuplicates} onChange={(e) => setSkipDuplicates(e.target.checked)} />
+                                Pomiń duplikaty ({duplicates})
+                            </label>
+                        )}
+                    </div>
+                </div>
+
+                <div className="flex gap-3 p-6">
+                    <button onClick={reset} className="flex-1 py-3 px-4 rounded-xl border border-slate-300 text-slate-600 font-medium hover:bg-slate-50 transition-colors">Wstecz</button>
+                    <button onClick={handleImport} disabled={valid.length === 0} className="flex-1 py-3 px-4 rounded-xl bg-indigo-600 text-white font-bold hover:bg-indigo-700 transition-colors shadow-lg shadow-indigo-200 disabled:opacity-50">
+                        Importuj {valid.length} słów
+                    </button>
+                </div>
+            </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CsvImportModal;
@@ -1,14 +1,25 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Word } from '../types';
+import { Word, ReviewGrade, StudyDirection } from '../types';
+import { PART_OF_SPEECH_LABELS } from '../services/wordDetails';
 
 interface FlashcardProps {
   word: Word;
-  onResult: (correct: boolean) => void;
+  onResult: (grade: ReviewGrade) => void;
   imageUrl?: string;
   onRegenerateImage?: () => void;
+  // 'en-pl' asks for the Polish word: English on the front, Polish on the back
+  direction?: StudyDirection;
 }
 
-const Flashcard: React.FC<FlashcardProps> = ({ word, onResult, imageUrl, onRegenerateImage }) => {
+const GRADE_BUTTONS: { grade: ReviewGrade; label: string; icon: string; className: string }[] = [
+  { grade: ReviewGrade.Again, label: 'Nie wiem', icon: '✕', className: 'border-red-100 text-red-500 hover:bg-red-50 hover:border-red-200' },
+  { grade: ReviewGrade.Hard, label: 'Trudne', icon: '😓', className: 'border-orange-100 text-orange-500 hover:bg-orange-50 hover:border-orange-200' },
+  { grade: ReviewGrade.Good, label: 'Dobrze', icon: '✓', className: 'border-green-100 text-green-600 hover:bg-green-50 hover:border-green-200' },
+  { grade: ReviewGrade.Easy, label: 'Łatwe', icon: '⚡', className: 'border-indigo-100 text-indigo-500 hover:bg-indigo-50 hover:border-indigo-200' },
+];
+
+const Flashcard: React.FC<FlashcardProps> = ({ word, onResult, imageUrl, onRegenerateImage, direction = 'pl-en' }) => {
+  const isReverse = direction === 'en-pl';
   const [isFlipped, setIsFlipped] = useState(false);
   const [dragX, setDragX] = useState(0);
   const [exitX, setExitX] = useState<number | null>(null);
@@ -28,12 +39,12 @@ const Flashcard: React.FC<FlashcardProps> = ({ word, onResult, imageUrl, onRegen
     setImageError(false); // Reset error state
   }, [word]);
 
-  const triggerResult = (correct: boolean) => {
+  const triggerResult = (grade: ReviewGrade) => {
       if (exitX !== null) return;
-      const flyValue = correct ? window.innerWidth : -window.innerWidth;
+      const flyValue = grade === ReviewGrade.Again ? -window.innerWidth : window.innerWidth;
       setExitX(flyValue);
       setTimeout(() => {
-          onResult(correct);
+          onResult(grade);
       }, 300);
   };
 
@@ -46,9 +57,11 @@ const Flashcard: React.FC<FlashcardProps> = ({ word, onResult, imageUrl, onRegen
               e.preventDefault();
               setIsFlipped(prev => !prev);
           } else if (e.code === 'ArrowRight') {
-              triggerResult(true);
+              triggerResult(ReviewGrade.Good);
           } else if (e.code === 'ArrowLeft') {
-              triggerResult(false);
+              triggerResult(ReviewGrade.Again);
+          } else if (['1', '2', '3', '4'].includes(e.key)) {
+              triggerResult(Number(e.key) as ReviewGrade);
           }
       };
 
@@ -80,9 +93,9 @@ const Flashcard: React.FC<FlashcardProps> = ({ word, onResult, imageUrl, onRegen
       setIsDragging(false);
       
       if (xRef.current > 100) {
-        triggerResult(true); 
+        triggerResult(ReviewGrade.Good); 
       } else if (xRef.current < -100) {
-        triggerResult(false); 
+        triggerResult(ReviewGrade.Again); 
       } else {
         setDragX(0); 
         xRef.current = 0;
@@ -142,9 +155,11 @@ const Flashcard: React.FC<FlashcardProps> = ({ word, onResult, imageUrl, onRegen
           <div className="absolute w-full h-full backface-hidden flex flex-col items-center justify-center p-4 md:p-8 rounded-3xl bg-white bg-gradient-to-br from-white to-slate-50">
             <div className="absolute top-6 text-xs md:text-base uppercase tracking-[0.2em] text-slate-400 font-semibold">{word.category}</div>
             
-            <h2 className="text-2xl sm:text-4xl md:text-7xl font-bold text-slate-800 mb-8 break-words hyphens-auto max-w-full px-2 leading-tight" lang="pl">
-              {word.polish}
+            <h2 className="text-2xl sm:text-4xl md:text-7xl font-bold text-slate-800 mb-8 break-words hyphens-auto max-w-full px-2 leading-tight" lang={isReverse ? 'en' : 'pl'}>
+              {isReverse ? word.english : word.polish}
             </h2>
+            {/* The meaning would give the answer away in reverse */}
+            {!isReverse && word.sense && <p className="-mt-6 mb-8 text-sm md:text-lg text-slate-400">({word.sense})</p>}
 
             <div className="absolute bottom-6 md:bottom-8 flex flex-col items-center">
                <span className="text-[10px] md:text-sm text-slate-400 font-medium uppercase tracking-wide">Dotknij aby odwrócić</span>
@@ -189,14 +204,23 @@ const Flashcard: React.FC<FlashcardProps> = ({ word, onResult, imageUrl, onRegen
 
             {/* Text Section */}
             <div className="flex-1 flex flex-col items-center justify-center p-4 bg-white relative">
-                <h2 className="text-3xl md:text-6xl font-bold text-indigo-700 mb-2 md:mb-4 break-words hyphens-auto max-w-full text-center leading-tight" lang="en">
-                    {word.english}
+                <h2 className="text-3xl md:text-6xl font-bold text-indigo-700 mb-2 md:mb-4 break-words hyphens-auto max-w-full text-center leading-tight" lang={isReverse ? 'pl' : 'en'}>
+                    {isReverse ? word.polish : word.english}
                 </h2>
+                {isReverse && <p className="text-slate-400 text-sm md:text-lg mb-2" lang="en">{word.english}</p>}
+                {(word.ipa || word.partOfSpeech) && (
+                  <p className="text-slate-400 text-xs md:text-base mb-2">
+                      {word.ipa && <span className="font-mono">/{word.ipa}/</span>}
+                      {word.ipa && word.partOfSpeech && ' · '}
+                      {word.partOfSpeech && <span className="italic">{PART_OF_SPEECH_LABELS[word.partOfSpeech]}</span>}
+                  </p>
+                )}
                 {word.exampleSentence && (
                   <div className="bg-indigo-50 px-3 py-2 rounded-xl max-w-[95%]">
                       <p className="text-indigo-800/80 italic text-xs md:text-lg font-medium leading-relaxed">
                           "{word.exampleSentence}"
                       </p>
+                      {word.exampleTranslation && <p className="text-indigo-700/60 text-xs md:text-base mt-1" lang="pl">{word.exampleTranslation}</p>}
                   </div>
                 )}
             </div>
@@ -204,31 +228,22 @@ const Flashcard: React.FC<FlashcardProps> = ({ word, onResult, imageUrl, onRegen
         </div>
       </div>
       
-      {/* BUTTONS */}
-      <div className="flex justify-between items-center mt-6 md:mt-10 px-6 md:px-20 max-w-[90vw] md:max-w-2xl w-full z-20">
-        <button 
-            onClick={(e) => { e.stopPropagation(); triggerResult(false); }}
-            className="group flex flex-col items-center gap-1 md:gap-2 transition-transform hover:scale-105 active:scale-95"
-        >
-            <div className="w-14 h-14 md:w-20 md:h-20 rounded-full border-2 border-red-100 bg-white group-hover:bg-red-50 group-hover:border-red-200 flex items-center justify-center shadow-md text-red-500 text-2xl md:text-4xl transition-colors">
-                ✕
-            </div>
-            <span className="text-[10px] md:text-sm font-bold text-slate-400 group-hover:text-red-500 uppercase tracking-wide">Nie wiem</span>
-        </button>
-        
-        <div className="text-xs text-slate-300 font-mono hidden md:block">
-            ← NIE WIEM | SPACJA | WIEM →
-        </div>
-
-        <button 
-            onClick={(e) => { e.stopPropagation(); triggerResult(true); }}
-            className="group flex flex-col items-center gap-1 md:gap-2 transition-transform hover:scale-105 active:scale-95"
-        >
-             <div className="w-14 h-14 md:w-20 md:h-20 rounded-full border-2 border-green-100 bg-white group-hover:bg-green-50 group-hover:border-green-200 flex items-center justify-center shadow-md text-green-500 text-2xl md:text-4xl transition-colors">
-                ✓
-             </div>
-             <span className="text-[10px] md:text-sm font-bold text-slate-400 group-hover:text-green-500 uppercase tracking-wide">Wiem</span>
-        </button>
+      {/* GRADE BUTTONS */}
+      <div className="grid grid-cols-4 gap-2 md:gap-4 mt-6 md:mt-10 max-w-[90vw] md:max-w-2xl w-full z-20">
+        {GRADE_BUTTONS.map(btn => (
+            <button 
+                key={btn.grade}
+                onClick={(e) => { e.stopPropagation(); triggerResult(btn.grade); }}
+                className={`group flex flex-col items-center gap-1 py-2 md:py-3 rounded-2xl border-2 bg-white shadow-md transition-transform hover:scale-105 active:scale-95 ${btn.className}`}
+            >
+                <span className="text-xl md:text-3xl">{btn.icon}</span>
+                <span className="text-[10px] md:text-sm font-bold uppercase tracking-wide">{btn.label}</span>
+                <span className="text-[10px] text-slate-300 font-mono hidden md:block">{btn.grade}</span>
+            </button>
+        ))}
+      </div>
+      <div className="text-xs text-slate-300 font-mono hidden md:block mt-3">
+          1-4 OCENA | SPACJA | ← NIE WIEM | DOBRZE →
       </div>
     </div>
   );
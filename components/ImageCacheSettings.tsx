@@ -0,0 +1,67 @@
+import React, { useEffect, useState } from 'react';
+import { Settings } from '../types';
+import { imageCache, ImageCacheUsage } from '../services/imageCache';
+
+interface ImageCacheSettingsProps {
+  settings: Settings;
+  onUpdate: (patch: Partial<Settings>) => void;
+}
+
+const BUDGET_OPTIONS = [25, 50, 100, 250, 500];
+
+const formatMb = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+const ImageCacheSettings: React.FC<ImageCacheSettingsProps> = ({ settings, onUpdate }) => {
+  const [usage, setUsage] = useState<ImageCacheUsage | null>(null);
+  const [isClearing, setIsClearing] = useState(false);
+
+  const refresh = () => { imageCache.getUsage().then(setUsage).catch(() => setUsage(null)); };
+
+  useEffect(refresh, [settings.imageCacheBudgetMb]);
+
+  const changeBudget = async (mb: number) => {
+    onUpdate({ imageCacheBudgetMb: mb });
+    // Settings are saved synchronously in memory, so eviction already sees the new budget
+    await imageCache.enforceBudget();
+    refresh();
+  };
+
+  const clear = async () => {
+    if (!window.confirm('Usunąć wszystkie zapisane obrazki? Zostaną pobrane ponownie przy następnej nauce.')) return;
+    setIsClearing(true);
+    try {
+      await imageCache.clear();
+    } finally {
+      setIsClearing(false);
+      refresh();
+    }
+  };
+
+  const percent = usage && usage.budgetBytes > 0 ? Math.min(100, (usage.bytes / usage.budgetBytes) * 100) : 0;
+
+  return (
+    <div className="mt-2">
+        <label className="block text-sm text-slate-500 mb-1">Obrazki offline</label>
+        <div className="flex gap-2 items-center">
+            <select value={settings.imageCacheBudgetMb} onChange={(e) => changeBudget(Number(e.target.value))} className="flex-1 p-2 border rounded-lg bg-white text-sm">
+                {BUDGET_OPTIONS.map(mb => <option key={mb} value={mb}>Do {mb} MB</option>)}
+            </select>
+            <button onClick={clear} disabled={isClearing || !usage?.count} className="text-xs bg-slate-100 hover:bg-slate-200 text-slate-700 px-3 py-2 rounded-lg font-medium transition-colors disabled:opacity-50">
+                {isClearing ? '...' : 'Wyczyść'}
+            </button>
+        </div>
+        {usage && (
+            <>
+                <div className="h-1.5 bg-slate-100 rounded-full mt-2 overflow-hidden">
+                    <div className="h-full bg-indigo-400" style={{ width: `${percent}%` }}></div>
+                </div>
+                <p className="text-[10px] text-slate-400 mt-1">
+                    Zajęte: {formatMb(usage.bytes)} z {formatMb(usage.budgetBytes)} ({usage.count} obrazków). Najdawniej oglądane są usuwane jako pierwsze.
+                </p>
+            </>
+        )}
+    </div>
+  );
+};
+
+export default ImageCacheSettings;
@@ -0,0 +1,106 @@
+import React, { useEffect, useState } from 'react';
+import { Settings } from '../types';
+import { IMAGE_PROVIDERS } from '../services/images/registry';
+import { imageHealth } from '../services/images/health';
+import { ImageProviderId } from '../services/images/types';
+
+interface ImageProviderSettingsProps {
+  settings: Settings;
+  onUpdate: (patch: Partial<Settings>) => void;
+}
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleTimeString('pl-PL', { hour: '2-digit', minute: '2-digit' });
+
+const labelOf = (id: ImageProviderId) => IMAGE_PROVIDERS.find(p => p.id === id)?.label || id;
+
+/**
+ * Editor of the 'auto' image chain: order, on/off per provider, current health and the recent fallbacks.
+ */
+const ImageProviderSettings: React.FC<ImageProviderSettingsProps> = ({ settings, onUpdate }) => {
+  // Re-render whenever a provider succeeds, fails or is skipped
+  const [, setTick] = useState(0);
+  useEffect(() => imageHealth.subscribe(() => setTick(t => t + 1)), []);
+
+  // Pollinations always ends the chain (see resolveImageChain), so it is pinned last and can't be moved or turned off
+  const chain: ImageProviderId[] = settings.imageProviderChain.filter(id => id !== 'pollinations');
+  // Enabled providers in chain order, then the disabled ones, then Pollinations
+  const rows: ImageProviderId[] = [...chain, ...IMAGE_PROVIDERS.map(p => p.id).filter(id => id !== 'pollinations' && !chain.includes(id)), 'pollinations'];
+  const fallbacks = imageHealth.getFallbacks().slice(0, 8);
+
+  const move = (id: ImageProviderId, delta: number) => {
+    const next = [...chain];
+    const from = next.indexOf(id);
+    const to = from + delta;
+    if (from === -1 || to < 0 || to >= next.length) return;
+    [next[from], next[to]] = [next[to], next[from]];
+    onUpdate({ imageProviderChain: next });
+  };
+
+  const toggle = (id: ImageProviderId) => {
+    onUpdate({ imageProviderChain: chain.includes(id) ? chain.filter(p => p !== id) : [...chain, id] });
+  };
+
+  const statusOf = (id: ImageProviderId) => {
+    const provider = IMAGE_PROVIDERS.find(p => p.id === id)!;
+    if (!provider.isConfigured()) return { text: 'brak klucza API', color: 'text-slate-400' };
+    const skipReason = imageHealth.skipReason(id);
+    if (skipReason) return { text: skipReason, color: 'text-red-600' };
+    const h = imageHealth.get(id);
+    if (h.lastFailure && (!h.lastSuccess || h.lastFailure > h.lastSuccess)) return { text: `ostatni błąd: ${h.lastError}`, color: 'text-amber-600' };
+    if (h.lastSuccess) return { text: `działa (${h.successes}× OK)`, color: 'text-green-600' };
+    return { text: 'jeszcze nie użyty', color: 'text-slate-400' };
+  };
+
+  return (
+    <div className="p-4 bg-indigo-50 rounded-lg border border-indigo-100 space-y-3 mt-2">
+        <div className="flex justify-between items-center">
+            <h4 className="text-sm font-semibold text-indigo-900">Kolejność generatorów</h4>
+            <button onClick={() => imageHealth.reset()} className="text-[10px] bg-indigo-100 hover:bg-indigo-200 text-indigo-800 px-2 py-1 rounded-full transition-colors font-medium">
+                Spróbuj wszystkie ponownie
+            </button>
+        </div>
+        <ul className="space-y-1">
+            {rows.map(id => {
+                const pinned = id === 'pollinations';
+                const enabled = pinned || chain.includes(id);
+                const index = pinned ? chain.length : chain.indexOf(id);
+                const status = statusOf(id);
+                return (
+                    <li key={id} className={`flex items-center gap-2 bg-white rounded-lg border border-indigo-100 px-2 py-1.5 ${enabled ? '' : 'opacity-50'}`}>
+                        {pinned
+                            ? <span className="text-xs w-[13px] text-center" title="Zawsze ostatnia">📌</span>
+                            : <input type="checkbox" checked={enabled} onChange={() => toggle(id)} className="accent-indigo-600" />}
+                        <div className="flex-1 min-w-0">
+                            <div className="text-sm text-slate-700">{enabled ? `${index + 1}. ` : ''}{labelOf(id)}</div>
+                            <div className={`text-[10px] truncate ${status.color}`} title={status.text}>{status.text}</div>
+                        </div>
+                        {enabled && !pinned && (
+                            <>
+                                <button onClick={() => move(id, -1)} disabled={index === 0} className="text-xs px-1.5 text-indigo-700 disabled:opacity-30">▲</button>
+                                <button onClick={() => move(id, 1)} disabled={index === chain.length - 1} className="text-xs px-1.5 text-indigo-700 disabled:opacity-30">▼</button>
+                            </>
+                        )}
+                    </li>
+                );
+            })}
+        </ul>
+        <p className="text-[10px] text-indigo-700">
+            Generatory zwracające 401, 402 lub 429 są na jakiś czas pomijane. Pollinations zawsze zamyka listę jako ostatnia deska ratunku.
+        </p>
+        {fallbacks.length > 0 && (
+            <div>
+                <h5 className="text-[10px] uppercase text-indigo-700 font-bold mb-1">Ostatnie przełączenia</h5>
+                <ul className="space-y-0.5">
+                    {fallbacks.map((f, i) => (
+                        <li key={i} className="text-[10px] text-slate-600 truncate" title={f.reason}>
+                            {formatTime(f.at)} · {f.word} · {labelOf(f.provider)}: {f.reason}
+                        </li>
+                    ))}
+                </ul>
+            </div>
+        )}
+    </div>
+  );
+};
+
+export default ImageProviderSettings;
@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { Word } from '../types';
+import { MergePreview } from '../services/merge';
+import { ValidationReport } from '../services/schema';
+
+interface ImportPreviewModalProps {
+  preview: MergePreview;
+  report: ValidationReport;
+  incomingCount: number;
+  localCount: number;
+  onMerge: () => void;
+  onReplace: () => void;
+  onCancel: () => void;
+}
+
+type Section = 'added' | 'updated' | 'conflicting';
+
+// Long lists are cut so the modal stays responsive with big decks
+const MAX_ROWS = 100;
+
+const wordLabel = (w: Word) => `${w.english} – ${w.polish}`;
+
+const formatDate = (ts: number | null) => ts ? new Date(ts).toLocaleDateString('pl-PL') : 'nigdy';
+
+const ImportPreviewModal: React.FC<ImportPreviewModalProps> = ({ preview, report, incomingCount, localCount, onMerge, onReplace, onCancel }) => {
+  const [section, setSection] = useState<Section>(preview.conflicting.length > 0 ? 'conflicting' : 'added');
+
+  const tabs: { id: Section; label: string; count: number; color: string }[] = [
+    { id: 'added', label: 'Nowe', count: preview.added.length, color: 'text-green-600' },
+    { id: 'updated', label: 'Zaktualizowane', count: preview.updated.length, color: 'text-blue-600' },
+    { id: 'conflicting', label: 'Konflikty', count: preview.conflicting.length, color: 'text-orange-600' },
+  ];
+
+  const activeCount = tabs.find(t => t.id === section)!.count;
+  const issues = report.fixed.length + report.rejected.length;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-lg max-h-[90vh] flex flex-col overflow-hidden animate-fade-in-up">
+        <div className="p-6 pb-4">
+            <h2 className="text-2xl font-bold text-slate-800 mb-1">Podgląd importu</h2>
+            <p className="text-sm text-slate-500">
+                Kopia zawiera {incomingCount} słów, na tym urządzeniu masz {localCount}. Scalanie zachowa postępy z obu urządzeń
+                (wygrywa wersja z nowszą powtórką), bez zmiany ustawień.
+            </p>
+            {issues > 0 && (
+                <p className="text-xs text-amber-600 mt-2">
+                    Walidacja: naprawiono {report.fixed.length}, odrzucono {report.rejected.length} rekordów.
+                </p>
+            )}
+        </div>
+
+        <div className="flex gap-1 px-6">
+            {tabs.map(tab => (
+                <button
+                    key={tab.id}
+                    onClick={() => setSection(tab.id)}
+                    className={`flex-1 py-2 rounded-t-lg text-sm font-medium border-b-2 transition-colors ${section === tab.id ? `border-indigo-500 bg-slate-50 ${tab.color}` : 'border-transparent text-slate-400 hover:text-slate-600'}`}
+                >
+                    {tab.label} ({tab.count})
+                </button>
+            ))}
+        </div>
+
+        <div className="flex-1 overflow-y-auto bg-slate-50 mx-6 rounded-b-lg border border-slate-100 text-sm min-h-[8rem]">
+            {section === 'added' && preview.added.slice(0, MAX_ROWS).map(w => (
+                <div key={w.id} className="px-3 py-2 border-b border-slate-100 text-slate-700">+ {wordLabel(w)}</div>
+            ))}
+            {section === 'updated' && preview.updated.slice(0, MAX_ROWS).map(c => (
+                <div key={c.local.id} className="px-3 py-2 border-b border-slate-100">
+                    <div className="text-slate-700">{wordLabel(c.incoming)}</div>
+                    <div className="text-[10px] text-slate-400">Powtórka: {formatDate(c.local.lastReview)} → {formatDate(c.incoming.lastReview)}</div>
+                </div>
+            ))}
+            {section === 'conflicting' && preview.conflicting.slice(0, MAX_ROWS).map(c => (
+                <div key={c.local.id} className="px-3 py-2 border-b border-slate-100">
+                    <div className="text-slate-700">Lokalnie: {wordLabel(c.local)} <span className="text-[10px] text-slate-400">({formatDate(c.local.lastReview)})</span></div>
+                    <div className="text-slate-500">Kopia: {wordLabel(c.incoming)} <span className="text-[10px] text-slate-400">({formatDate(c.incoming.lastReview)})</span></div>
+                    <div className="text-[10px] text-orange-600">{c.reason}</div>
+                </div>
+            ))}
+            {activeCount === 0 && (
+                <div className="p-4 text-center text-slate-400">Brak pozycji.</div>
+            )}
+            {activeCount > MAX_ROWS && (
+                <div className="p-2 text-center text-[10px] text-slate-400">...i {activeCount - MAX_ROWS} więcej</div>
+            )}
+        </div>
+        <p className="text-[10px] text-slate-400 px-6 mt-2">Bez zmian: {preview.unchanged}</p>
+
+        <div className="flex flex-col gap-2 p-6 pt-4">
+            <button onClick={onMerge} className="w-full py-3 rounded-xl bg-indigo-600 text-white font-bold hover:bg-indigo-700 transition-colors shadow-lg shadow-indigo-200">
+                Scal dane 🔀
+            </button>
+            <div className="flex gap-2">
+                <button onClick={onCancel} className="flex-1 py-2 rounded-xl border border-slate-300 text-slate-600 font-medium hover:bg-slate-50 transition-colors">
+                    Anuluj
+                </button>
+                <button onClick={onReplace} className="flex-1 py-2 rounded-xl border border-red-200 text-red-600 font-medium hover:bg-red-50 transition-colors">
+                    Zastąp wszystko
+                </button>
+            </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportPreviewModal;
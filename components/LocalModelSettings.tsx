@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { Settings } from '../types';
+import { listLocalModels } from '../services/providers/localProvider';
+
+interface LocalModelSettingsProps {
+  settings: Settings;
+  onUpdate: (patch: Partial<Settings>) => void;
+}
+
+const DEFAULT_BASES: Record<Settings['localServerType'], string> = {
+  ollama: 'http://localhost:11434',
+  llamacpp: 'http://localhost:8080',
+};
+
+const LocalModelSettings: React.FC<LocalModelSettingsProps> = ({ settings, onUpdate }) => {
+  const [models, setModels] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const fetchModels = async () => {
+    setIsLoading(true);
+    setError('');
+    try {
+      const list = await listLocalModels(settings.localServerType, settings.localApiBase);
+      setModels(list);
+      if (list.length === 0) setError('Serwer nie zwrócił żadnych modeli.');
+      else if (!list.includes(settings.localModelName)) onUpdate({ localModelName: list[0] });
+    } catch (e: any) {
+      setError(e?.message || 'Nie udało się pobrać listy modeli.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const changeServerType = (type: Settings['localServerType']) => {
+    setModels([]);
+    // Only swap the address if it's still the other server's default
+    const isDefaultBase = Object.values(DEFAULT_BASES).includes(settings.localApiBase);
+    onUpdate({ localServerType: type, localApiBase: isDefaultBase ? DEFAULT_BASES[type] : settings.localApiBase });
+  };
+
+  return (
+    <div className="p-4 bg-emerald-50 rounded-lg border border-emerald-100 space-y-3 mt-4">
+        <h4 className="text-sm font-semibold text-emerald-900">Lokalny model (bez klucza API)</h4>
+        <div>
+            <label className="text-[10px] uppercase text-emerald-700 font-bold block mb-1">Serwer</label>
+            <select value={settings.localServerType} onChange={(e) => changeServerType(e.target.value as Settings['localServerType'])} className="w-full p-2 border rounded-lg bg-white text-sm">
+                <option value="ollama">Ollama</option>
+                <option value="llamacpp">llama.cpp server</option>
+            </select>
+        </div>
+        <div>
+            <label className="text-[10px] uppercase text-emerald-700 font-bold block mb-1">Adres serwera</label>
+            <input type="text" value={settings.localApiBase} placeholder={DEFAULT_BASES[settings.localServerType]} onChange={(e) => onUpdate({ localApiBase: e.target.value })} className="w-full p-2 border rounded-lg bg-white text-sm" />
+        </div>
+        <div>
+            <label className="text-[10px] uppercase text-emerald-700 font-bold block mb-1">Model</label>
+            <div className="flex gap-2">
+                {models.length > 0 ? (
+                    <select value={settings.localModelName} onChange={(e) => onUpdate({ localModelName: e.target.value })} className="flex-1 p-2 border rounded-lg bg-white text-sm">
+                        {models.map(m => <option key={m} value={m}>{m}</option>)}
+                    </select>
+                ) : (
+                    <input type="text" value={settings.localModelName} placeholder={settings.localServerType === 'ollama' ? 'np. llama3.1:8b' : 'opcjonalnie'} onChange={(e) => onUpdate({ localModelName: e.target.value })} className="flex-1 p-2 border rounded-lg bg-white text-sm" />
+                )}
+                <button onClick={fetchModels} disabled={isLoading} className="text-xs bg-emerald-100 hover:bg-emerald-200 text-emerald-800 px-3 rounded-lg font-medium transition-colors disabled:opacity-50">
+                    {isLoading ? '...' : 'Pobierz listę'}
+                </button>
+            </div>
+        </div>
+        {error && <p className="text-xs text-red-600">{error}</p>}
+        <p className="text-[10px] text-emerald-700">
+            Przeglądarka musi mieć dostęp do serwera (CORS). Dla Ollamy uruchom ją z <code>OLLAMA_ORIGINS=*</code>.
+        </p>
+    </div>
+  );
+};
+
+export default LocalModelSettings;
@@ -0,0 +1,48 @@
+import React from 'react';
+
+interface ProgressRingProps {
+  value: number;
+  max: number;
+  size?: number;
+  strokeWidth?: number;
+  children?: React.ReactNode;
+}
+
+const ProgressRing: React.FC<ProgressRingProps> = ({ value, max, size = 96, strokeWidth = 10, children }) => {
+  const radius = (size - strokeWidth) / 2;
+  const circumference = 2 * Math.PI * radius;
+  // Guard against a daily goal of 0 (the settings input allows it)
+  const progress = max > 0 ? Math.min(value / max, 1) : 1;
+  const isComplete = progress >= 1;
+
+  return (
+    <div className="relative flex items-center justify-center" style={{ width: size, height: size }}>
+      <svg width={size} height={size} className="-rotate-90">
+        <circle
+          cx={size / 2}
+          cy={size / 2}
+          r={radius}
+          fill="none"
+          strokeWidth={strokeWidth}
+          className="stroke-slate-100"
+        />
+        <circle
+          cx={size / 2}
+          cy={size / 2}
+          r={radius}
+          fill="none"
+          strokeWidth={strokeWidth}
+          strokeLinecap="round"
+          strokeDasharray={circumference}
+          strokeDashoffset={circumference * (1 - progress)}
+          className={`transition-all duration-700 ${isComplete ? 'stroke-green-500' : 'stroke-indigo-500'}`}
+        />
+      </svg>
+      <div className="absolute inset-0 flex flex-col items-center justify-center">
+        {children}
+      </div>
+    </div>
+  );
+};
+
+export default ProgressRing;
@@ -0,0 +1,298 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Word, WordStatus, LanguageLevel, StudyMode, ReviewGrade, StudyDirection } from '../types';
+import { geminiService } from '../services/gemini';
+import { imageCache } from '../services/imageCache';
+import { storageService } from '../services/storage';
+import { schedulerService } from '../services/scheduler';
+import { offlineQueue } from '../services/offlineQueue';
+import { isAbortError } from '../services/imageScheduler';
+import { pickDetails, withDetails, finalizeDetails } from '../services/wordDetails';
+import WordDetailsFields from './WordDetailsFields';
+
+interface WordDetailPanelProps {
+  word: Word;
+  onSave: (word: Word) => void;
+  onDelete: (word: Word) => void;
+  onClose: () => void;
+}
+
+const STATUS_LABELS: Record<WordStatus, string> = {
+  [WordStatus.New]: 'nowe',
+  [WordStatus.Learning]: 'w nauce',
+  [WordStatus.Learned]: 'nauczone',
+};
+
+const MODE_LABELS: Record<StudyMode, string> = {
+  [StudyMode.flashcards]: 'Fiszki',
+  [StudyMode.typing]: 'Pisanie',
+  [StudyMode.match]: 'Dopasowywanie',
+  [StudyMode.listening]: 'Słuchanie',
+  [StudyMode.multipleChoice]: 'Quiz',
+  [StudyMode.cloze]: 'Uzupełnianie',
+};
+
+const GRADES: Record<ReviewGrade, { label: string; className: string }> = {
+  [ReviewGrade.Again]: { label: 'Nie wiem', className: 'bg-red-400' },
+  [ReviewGrade.Hard]: { label: 'Trudne', className: 'bg-orange-400' },
+  [ReviewGrade.Good]: { label: 'Dobrze', className: 'bg-green-500' },
+  [ReviewGrade.Easy]: { label: 'Łatwe', className: 'bg-indigo-500' },
+};
+
+const DIRECTIONS: { id: StudyDirection; label: string }[] = [
+  { id: 'pl-en', label: 'PL → EN' },
+  { id: 'en-pl', label: 'EN → PL' },
+];
+
+// The timeline of a word studied daily for years would be thousands of rows
+const MAX_TIMELINE_ROWS = 50;
+
+const formatDate = (ts: number | null) => ts ? new Date(ts).toLocaleDateString('pl-PL') : '—';
+const formatDateTime = (ts: number) => new Date(ts).toLocaleString('pl-PL', { day: '2-digit', month: '2-digit', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+// What "Zapisz" would change; progress isn't edited in the draft
+const contentOf = (w: Word) => JSON.stringify([w.polish, w.english, w.category, w.level, w.exampleSentence || '', pickDetails(w)]);
+
+const inputClass = 'w-full p-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none';
+
+/**
+ * Everything about one word: editable content, progress in both directions and the review history.
+ * Edits are kept in a draft until "Zapisz"; the progress actions are saved straight away.
+ */
+const WordDetailPanel: React.FC<WordDetailPanelProps> = ({ word, onSave, onDelete, onClose }) => {
+  const [draft, setDraft] = useState<Word>(word);
+  const [image, setImage] = useState<string | undefined>(undefined);
+  const [isImageLoading, setIsImageLoading] = useState(false);
+  const [isSentenceLoading, setIsSentenceLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const logs = useMemo(
+    () => storageService.getReviewLogs(word.id).slice().sort((a, b) => b.timestamp - a.timestamp),
+    [word]
+  );
+  const correctCount = logs.filter(l => l.grade !== ReviewGrade.Again).length;
+
+  const isDirty = contentOf(draft) !== contentOf(word);
+
+  // Picture from the offline cache, or generated like on a study card
+  useEffect(() => {
+    let isMounted = true;
+    const controller = new AbortController();
+    const request = word.imageUrl
+        ? imageCache.resolve(imageCache.keyFor(word.english, storageService.getSettings().visualStyle), word.imageUrl)
+        : geminiService.generateImage(word.english, word.exampleSentence, false, { priority: 'visible', signal: controller.signal });
+    setIsImageLoading(true);
+    request
+        .then(url => { if (isMounted) setImage(url); })
+        .catch(err => { if (!isAbortError(err)) console.error(err); })
+        .finally(() => { if (isMounted) setIsImageLoading(false); });
+    return () => { isMounted = false; controller.abort(); };
+  }, [word.id]);
+
+  // A regenerated picture that is still loading is dropped when the panel closes
+  const regenerateControllerRef = useRef<AbortController | null>(null);
+  useEffect(() => () => regenerateControllerRef.current?.abort(), []);
+
+  const update = (patch: Partial<Word>) => setDraft(prev => ({ ...prev, ...patch }));
+
+  const handleSave = () => {
+    if (!draft.polish.trim() || !draft.english.trim()) {
+        setError('Słowo musi mieć tłumaczenie polskie i angielskie.');
+        return;
+    }
+    setError('');
+    // Content from the draft, progress always from the stored word
+    onSave(withDetails({
+        ...word,
+        polish: draft.polish.trim(),
+        english: draft.english.trim(),
+        category: draft.category.trim() || 'własne',
+        level: draft.level,
+        exampleSentence: draft.exampleSentence?.trim() || undefined,
+        imageUrl: draft.imageUrl,
+    }, finalizeDetails(pickDetails(draft))));
+  };
+
+  const handleRegenerateSentence = async () => {
+    if (!offlineQueue.canUseAi()) {
+        setError('Brak internetu: nowe zdanie można wygenerować po powrocie do sieci.');
+        return;
+    }
+    setIsSentenceLoading(true);
+    setError('');
+    try {
+        const sentence = await geminiService.generateExampleSentence(draft.english, draft.polish);
+        if (!sentence) throw new Error("Empty sentence");
+        // The old translation belongs to the old sentence
+        update({ exampleSentence: sentence, exampleTranslation: undefined });
+    } catch (e) {
+        setError('Nie udało się wygenerować zdania.');
+    } finally {
+        setIsSentenceLoading(false);
+    }
+  };
+
+  const handleRegenerateImage = () => {
+    // A fixed image on the word would win over the new one next time. Cleared right away: by the time
+    // the picture arrives the word may have been saved again, and `word` would be out of date.
+    if (word.imageUrl) {
+        onSave({ ...word, imageUrl: undefined });
+        update({ imageUrl: undefined });
+    }
+    regenerateControllerRef.current?.abort();
+    const controller = new AbortController();
+    regenerateControllerRef.current = controller;
+    setImage(undefined);
+    setIsImageLoading(true);
+    geminiService.generateImage(draft.english, draft.exampleSentence, true, { priority: 'visible', signal: controller.signal })
+        .then(url => { if (!controller.signal.aborted) setImage(url); })
+        .catch(err => { if (!isAbortError(err)) console.error(err); })
+        .finally(() => { if (!controller.signal.aborted) setIsImageLoading(false); });
+  };
+
+  const handleReset = () => {
+    if (!window.confirm('Zresetować postępy tego słowa w obu kierunkach? Historia powtórek zostanie zachowana.')) return;
+    onSave(schedulerService.reset(word));
+  };
+
+  const handleMarkLearned = () => {
+    onSave(DIRECTIONS.reduce((w, d) => schedulerService.markLearned(w, d.id), word));
+  };
+
+  const handleClose = () => {
+    if (isDirty && !window.confirm('Odrzucić niezapisane zmiany?')) return;
+    onClose();
+  };
+
+  const handleDelete = () => {
+    if (!window.confirm(`Usunąć słowo "${word.english}"?`)) return;
+    onDelete(word);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-2xl max-h-[90vh] flex flex-col overflow-hidden animate-fade-in-up">
+        <div className="p-6 pb-4 flex justify-between items-start gap-4 border-b border-slate-100">
+            <div>
+                <h2 className="text-2xl font-bold text-slate-800" lang="en">{word.english}</h2>
+                <p className="text-slate-500" lang="pl">{word.polish}</p>
+            </div>
+            <button onClick={handleClose} className="text-slate-400 hover:text-slate-600 text-xl p-1">✕</button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+            {/* --- CONTENT --- */}
+            <div className="flex flex-col md:flex-row gap-4">
+                <div className="w-full md:w-40 shrink-0">
+                    <div className="relative w-full h-40 rounded-xl bg-slate-100 overflow-hidden">
+                        {image && <img src={image} alt={word.english} className="w-full h-full object-cover" />}
+                        {isImageLoading && <div className="absolute inset-0 flex items-center justify-center text-slate-400 text-sm animate-pulse">Ładowanie...</div>}
+                    </div>
+                    <button onClick={handleRegenerateImage} disabled={isImageLoading} className="mt-2 w-full text-xs bg-slate-100 hover:bg-slate-200 text-slate-700 px-3 py-2 rounded-lg font-medium disabled:opacity-50">🔄 Nowy obrazek</button>
+                </div>
+                <div className="flex-1 space-y-3">
+                    <div className="grid grid-cols-2 gap-2">
+                        <div>
+                            <label className="block text-xs font-medium text-slate-500 mb-1">Po polsku</label>
+                            <input type="text" value={draft.polish} onChange={(e) => update({ polish: e.target.value })} className={inputClass} lang="pl" />
+                        </div>
+                        <div>
+                            <label className="block text-xs font-medium text-slate-500 mb-1">Po angielsku</label>
+                            <input type="text" value={draft.english} onChange={(e) => update({ english: e.target.value })} className={inputClass} lang="en" />
+                        </div>
+                        <div>
+                            <label className="block text-xs font-medium text-slate-500 mb-1">Kategoria</label>
+                            <input type="text" value={draft.category} onChange={(e) => update({ category: e.target.value })} className={inputClass} />
+                        </div>
+                        <div>
+                            <label className="block text-xs font-medium text-slate-500 mb-1">Poziom</label>
+                            <select value={draft.level} onChange={(e) => update({ level: e.target.value as LanguageLevel })} className={`${inputClass} bg-white`}>
+                                {Object.values(LanguageLevel).map(l => <option key={l} value={l}>{l}</option>)}
+                            </select>
+                        </div>
+                    </div>
+                    <div>
+                        <div className="flex justify-between items-center mb-1">
+                            <label className="block text-xs font-medium text-slate-500">Zdanie przykładowe</label>
+                            <button onClick={handleRegenerateSentence} disabled={isSentenceLoading} className="text-xs text-indigo-600 hover:text-indigo-800 font-medium disabled:opacity-50">
+                                {isSentenceLoading ? 'Generowanie...' : '🔄 Nowe zdanie (AI)'}
+                            </button>
+                        </div>
+                        <textarea value={draft.exampleSentence || ''} onChange={(e) => update({ exampleSentence: e.target.value })} rows={2} className={inputClass} lang="en" />
+                        <input type="text" value={draft.exampleTranslation || ''} onChange={(e) => update({ exampleTranslation: e.target.value || undefined })} placeholder="Tłumaczenie zdania" className={`${inputClass} mt-1 text-sm`} lang="pl" />
+                    </div>
+                </div>
+            </div>
+
+            <WordDetailsFields key={word.id} value={pickDetails(draft)} onChange={(details) => setDraft(prev => withDetails(prev, details))} />
+
+            {/* --- PROGRESS --- */}
+            <div>
+                <h3 className="font-bold text-slate-700 mb-2">Postępy</h3>
+                <div className="grid grid-cols-2 gap-2 mb-3">
+                    {DIRECTIONS.map(d => {
+                        const progress = schedulerService.getProgress(word, d.id);
+                        return (
+                            <div key={d.id} className="bg-slate-50 rounded-xl p-3 text-sm">
+                                <div className="font-bold text-slate-700 mb-1">{d.label}</div>
+                                <div className="text-slate-500">Status: <span className="text-slate-800">{STATUS_LABELS[progress.status]}</span></div>
+                                <div className="text-slate-500">Następna powtórka: <span className="text-slate-800">{progress.status === WordStatus.New ? '—' : formatDate(progress.nextReview)}</span></div>
+                                <div className="text-slate-500">Interwał: <span className="text-slate-800">{progress.interval ?? 0} dni</span></div>
+                                <div className="text-slate-500">Pomyłki: <span className="text-slate-800">{progress.lapses ?? 0}</span></div>
+                            </div>
+                        );
+                    })}
+                </div>
+                <div className="flex gap-4 text-sm text-slate-500">
+                    <span>Odpowiedzi: <span className="font-bold text-slate-800">{logs.length}</span></span>
+                    <span>Skuteczność: <span className="font-bold text-slate-800">{logs.length > 0 ? `${Math.round((correctCount / logs.length) * 100)}%` : '—'}</span></span>
+                    <span>Ostatnio: <span className="font-bold text-slate-800">{formatDate(logs[0]?.timestamp ?? null)}</span></span>
+                </div>
+            </div>
+
+            {/* --- REVIEW TIMELINE --- */}
+            <div>
+                <h3 className="font-bold text-slate-700 mb-2">Historia powtórek</h3>
+                {logs.length === 0 ? (
+                    <p className="text-sm text-slate-400">Słowo nie było jeszcze powtarzane.</p>
+                ) : (
+                    <>
+                        {/* Oldest on the left, like a timeline */}
+                        <div className="flex flex-wrap gap-1 mb-3">
+                            {logs.slice(0, MAX_TIMELINE_ROWS).reverse().map(l => (
+                                <span key={l.id} className={`w-3 h-3 rounded-full ${GRADES[l.grade].className}`} title={`${formatDateTime(l.timestamp)}: ${GRADES[l.grade].label}`}></span>
+                            ))}
+                        </div>
+                        <div className="border border-slate-100 rounded-xl divide-y divide-slate-100 text-sm max-h-48 overflow-y-auto">
+                            {logs.slice(0, MAX_TIMELINE_ROWS).map(l => (
+                                <div key={l.id} className="flex items-center gap-3 px-3 py-2">
+                                    <span className={`w-2 h-2 rounded-full shrink-0 ${GRADES[l.grade].className}`}></span>
+                                    <span className="text-slate-500 w-36 shrink-0">{formatDateTime(l.timestamp)}</span>
+                                    <span className="text-slate-800 font-medium w-20 shrink-0">{GRADES[l.grade].label}</span>
+                                    <span className="text-slate-500 flex-1 truncate">{MODE_LABELS[l.mode]}, {l.direction === 'en-pl' ? 'EN → PL' : 'PL → EN'}</span>
+                                    <span className="text-slate-400 text-xs shrink-0">{l.previousInterval} → {l.nextInterval} d</span>
+                                </div>
+                            ))}
+                        </div>
+                        {logs.length > MAX_TIMELINE_ROWS && <p className="text-xs text-slate-400 mt-1">...i {logs.length - MAX_TIMELINE_ROWS} starszych</p>}
+                    </>
+                )}
+            </div>
+        </div>
+
+        <div className="p-4 border-t border-slate-100 space-y-2">
+            {error && <div className="text-red-500 text-sm">{error}</div>}
+            <div className="flex flex-wrap gap-2">
+                <button onClick={handleMarkLearned} className="text-sm px-3 py-2 rounded-lg bg-green-50 text-green-700 hover:bg-green-100 font-medium">✓ Oznacz jako nauczone</button>
+                <button onClick={handleReset} className="text-sm px-3 py-2 rounded-lg bg-slate-100 text-slate-700 hover:bg-slate-200 font-medium">↺ Resetuj postępy</button>
+                <button onClick={handleDelete} className="text-sm px-3 py-2 rounded-lg text-red-500 hover:bg-red-50 font-medium">🗑️ Usuń</button>
+                <div className="flex-1"></div>
+                <button onClick={handleClose} className="text-sm px-4 py-2 rounded-lg border border-slate-300 text-slate-600 hover:bg-slate-50 font-medium">Zamknij</button>
+                <button onClick={handleSave} disabled={!isDirty} className="text-sm px-4 py-2 rounded-lg bg-indigo-600 text-white font-bold hover:bg-indigo-700 disabled:opacity-50">Zapisz</button>
+            </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WordDetailPanel;
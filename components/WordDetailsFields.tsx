@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { WordDetails, PartOfSpeech, ExampleSentence } from '../types';
+import { PART_OF_SPEECH_LABELS, PARTS_OF_SPEECH, parseList, compactDetails } from '../services/wordDetails';
+
+interface WordDetailsFieldsProps {
+  value: WordDetails;
+  // Always called with the unset fields left out (see compactDetails)
+  onChange: (details: WordDetails) => void;
+}
+
+const inputClass = 'w-full p-2 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none';
+
+/**
+ * Form fields for the optional word details. Remount it (key) to show a different word.
+ */
+const WordDetailsFields: React.FC<WordDetailsFieldsProps> = ({ value, onChange }) => {
+  // Lists are typed as "a, b, c"; kept as text so commas and spaces can be typed
+  const [englishAlternatives, setEnglishAlternatives] = useState((value.englishAlternatives || []).join(', '));
+  const [polishAlternatives, setPolishAlternatives] = useState((value.polishAlternatives || []).join(', '));
+
+  const update = (patch: WordDetails) => onChange(compactDetails({ ...value, ...patch }));
+  const textOrUndefined = (v: string) => v.trim() ? v : undefined;
+
+  const examples = value.examples || [];
+  const updateExample = (index: number, patch: Partial<ExampleSentence>) =>
+    update({ examples: examples.map((e, i) => i === index ? { ...e, ...patch } : e) });
+  const removeExample = (index: number) => {
+    const rest = examples.filter((_, i) => i !== index);
+    update({ examples: rest.length > 0 ? rest : undefined });
+  };
+
+  return (
+    <div className="space-y-3">
+        <div className="grid grid-cols-2 gap-2">
+            <div>
+                <label className="block text-xs font-medium text-slate-500 mb-1">Część mowy</label>
+                <select value={value.partOfSpeech || ''} onChange={(e) => update({ partOfSpeech: (e.target.value || undefined) as PartOfSpeech | undefined })} className={`${inputClass} bg-white`}>
+                    <option value="">—</option>
+                    {PARTS_OF_SPEECH.map(p => <option key={p} value={p}>{PART_OF_SPEECH_LABELS[p]}</option>)}
+                </select>
+            </div>
+            <div>
+                <label className="block text-xs font-medium text-slate-500 mb-1">Wymowa (IPA)</label>
+                <input type="text" value={value.ipa || ''} onChange={(e) => update({ ipa: textOrUndefined(e.target.value) })} placeholder="np. kæt" className={inputClass} lang="en" />
+            </div>
+        </div>
+
+        <div>
+            <label className="block text-xs font-medium text-slate-500 mb-1">Inne tłumaczenia angielskie (po przecinku)</label>
+            <input type="text" value={englishAlternatives} onChange={(e) => { setEnglishAlternatives(e.target.value); update({ englishAlternatives: parseList(e.target.value) }); }} placeholder="np. automobile" className={inputClass} lang="en" />
+        </div>
+        <div>
+            <label className="block text-xs font-medium text-slate-500 mb-1">Inne tłumaczenia polskie (po przecinku)</label>
+            <input type="text" value={polishAlternatives} onChange={(e) => { setPolishAlternatives(e.target.value); update({ polishAlternatives: parseList(e.target.value) }); }} placeholder="np. auto" className={inputClass} lang="pl" />
+        </div>
+
+        <div>
+            <label className="block text-xs font-medium text-slate-500 mb-1">Znaczenie (gdy słowo ma kilka)</label>
+            <input type="text" value={value.sense || ''} onChange={(e) => update({ sense: textOrUndefined(e.target.value) })} placeholder="np. brzeg rzeki" className={inputClass} />
+        </div>
+        <div>
+            <label className="block text-xs font-medium text-slate-500 mb-1">Notatki</label>
+            <textarea value={value.notes || ''} onChange={(e) => update({ notes: textOrUndefined(e.target.value) })} rows={2} className={inputClass} />
+        </div>
+
+        <div>
+            <div className="flex justify-between items-center mb-1">
+                <label className="block text-xs font-medium text-slate-500">Dodatkowe przykłady</label>
+                <button type="button" onClick={() => update({ examples: [...examples, { english: '', polish: '' }] })} className="text-xs text-indigo-600 hover:text-indigo-800 font-medium">+ Dodaj</button>
+            </div>
+            {examples.map((example, i) => (
+                <div key={i} className="flex gap-2 items-start mb-2">
+                    <div className="flex-1 space-y-1">
+                        <input type="text" value={example.english} onChange={(e) => updateExample(i, { english: e.target.value })} placeholder="Zdanie po angielsku" className={inputClass} lang="en" />
+                        <input type="text" value={example.polish} onChange={(e) => updateExample(i, { polish: e.target.value })} placeholder="Tłumaczenie" className={inputClass} lang="pl" />
+                    </div>
+                    <button type="button" onClick={() => removeExample(i)} className="text-slate-400 hover:text-red-500 p-2" title="Usuń przykład">✕</button>
+                </div>
+            ))}
+        </div>
+    </div>
+  );
+};
+
+export default WordDetailsFields;
@@ -1,6 +1,8 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { storageService } from './services/storage';
+import { registerServiceWorker } from './services/pwa';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -8,6 +10,27 @@ if (!rootElement) {
 }
 
 const root = ReactDOM.createRoot(rootElement);
-root.render(
-  <App />
-);
+
+// Storage loads asynchronously (IndexedDB), so wait for it before the first render
+storageService.init().then(() => {
+  root.render(
+    <App />
+  );
+}, (e) => {
+  // Nothing is saved in this state, so the app isn't shown at all
+  console.error("Storage init error", e);
+  root.render(
+    <div className="min-h-screen flex items-center justify-center p-6 bg-slate-50">
+      <div className="max-w-md bg-white rounded-2xl shadow-sm border border-slate-200 p-6 text-center space-y-3">
+        <h1 className="text-xl font-bold text-slate-800">Nie udało się otworzyć bazy danych</h1>
+        <p className="text-sm text-slate-600">
+          Twoje słowa są zapisane w bazie przeglądarki, której teraz nie da się otworzyć. Zamknij inne karty z aplikacją
+          i odśwież stronę.
+        </p>
+        <button onClick={() => window.location.reload()} className="bg-indigo-600 text-white px-4 py-2 rounded-lg text-sm font-bold hover:bg-indigo-700">Odśwież</button>
+      </div>
+    </div>
+  );
+});
+
+registerServiceWorker();
@@ -0,0 +1,139 @@
+// --- SERVICE WORKER ---
+// Registered by services/pwa.ts as /sw.js?build=<id>, so every build installs a fresh worker.
+//  - App shell (index.html, built assets from asset-manifest.json, Tailwind/fonts CDN): precached on install
+//  - Navigations: network first, cached shell when offline
+//  - Images and TTS audio: cache first, trimmed to a maximum number of entries
+//  - /api and AI endpoints: never cached, the app queues AI work itself while offline
+
+const BUILD = new URL(self.location.href).searchParams.get('build') || 'dev';
+const SHELL_CACHE = `shell-${BUILD}`;
+const IMAGE_CACHE = 'images-v1';
+const AUDIO_CACHE = 'audio-v1';
+const CDN_CACHE = 'cdn-v1';
+
+const MAX_IMAGES = 300;
+const MAX_AUDIO = 200;
+
+const SHELL_URLS = ['/', '/index.html', '/manifest.webmanifest', '/icon.svg', '/icon-maskable.svg'];
+const CDN_URLS = [
+  'https://cdn.tailwindcss.com',
+  'https://fonts.googleapis.com/css2?family=Inter:wght@300;400;500;600;700&display=swap',
+];
+const CDN_HOSTS = ['cdn.tailwindcss.com', 'fonts.googleapis.com', 'fonts.gstatic.com'];
+const AUDIO_HOSTS = ['api.streamelements.com'];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil((async () => {
+    const shell = await caches.open(SHELL_CACHE);
+    await shell.addAll(SHELL_URLS);
+
+    // Everything Vite built, including chunks that are only imported on demand
+    try {
+      const response = await fetch('/asset-manifest.json', { cache: 'no-store' });
+      if (response.ok) {
+        const files = await response.json();
+        await shell.addAll(files.filter((f) => f !== 'index.html').map((f) => `/${f}`));
+      }
+    } catch (e) {
+      console.warn('[sw] asset manifest unavailable, assets will be cached on first use', e);
+    }
+
+    // Cross-origin without CORS: stored as opaque responses, which <script> and <link> accept
+    const cdn = await caches.open(CDN_CACHE);
+    await Promise.all(CDN_URLS.map(async (url) => {
+      try {
+        await cdn.put(url, await fetch(url, { mode: 'no-cors' }));
+      } catch (e) {
+        console.warn('[sw] could not precache', url, e);
+      }
+    }));
+
+    await self.skipWaiting();
+  })());
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const keep = [SHELL_CACHE, IMAGE_CACHE, AUDIO_CACHE, CDN_CACHE];
+    const names = await caches.keys();
+    await Promise.all(names.filter((name) => !keep.includes(name)).map((name) => caches.delete(name)));
+    await self.clients.claim();
+  })());
+});
+
+const trimCache = async (cacheName, maxEntries) => {
+  const cache = await caches.open(cacheName);
+  const keys = await cache.keys();
+  // Cache keys come back in insertion order, so the oldest go first
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - maxEntries)).map((key) => cache.delete(key)));
+};
+
+const networkFirstShell = async (request) => {
+  try {
+    const response = await fetch(request);
+    if (response.ok) (await caches.open(SHELL_CACHE)).put('/index.html', response.clone());
+    return response;
+  } catch {
+    return (await caches.match('/index.html')) || Response.error();
+  }
+};
+
+const cacheFirst = async (request, cacheName, maxEntries) => {
+  const cached = await caches.match(request.url);
+  if (cached) return cached;
+
+  // Audio elements send Range requests; fetch the whole file so it can be stored and replayed
+  const response = await fetch(request.headers.has('range') ? request.url : request);
+  if (response.ok || response.type === 'opaque') {
+    const cache = await caches.open(cacheName);
+    await cache.put(request.url, response.clone());
+    if (maxEntries) trimCache(cacheName, maxEntries);
+  }
+  return response;
+};
+
+const staleWhileRevalidate = async (request, cacheName) => {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(request);
+  const update = fetch(request)
+    .then((response) => {
+      if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+      return response;
+    })
+    .catch(() => cached || Response.error());
+  return cached || update;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirstShell(request));
+    return;
+  }
+
+  if (url.origin === self.location.origin) {
+    if (url.pathname.startsWith('/api/')) return;
+    // Hashed file names never change content
+    if (url.pathname.startsWith('/assets/') || SHELL_URLS.includes(url.pathname)) {
+      event.respondWith(cacheFirst(request, SHELL_CACHE));
+    }
+    return;
+  }
+
+  if (CDN_HOSTS.includes(url.hostname)) {
+    event.respondWith(staleWhileRevalidate(request, CDN_CACHE));
+    return;
+  }
+
+  if (AUDIO_HOSTS.includes(url.hostname) || request.destination === 'audio') {
+    event.respondWith(cacheFirst(request, AUDIO_CACHE, MAX_AUDIO));
+    return;
+  }
+
+  if (request.destination === 'image' || url.hostname === 'image.pollinations.ai') {
+    event.respondWith(cacheFirst(request, IMAGE_CACHE, MAX_IMAGES));
+  }
+});
@@ -0,0 +1,450 @@
+import type { Database, SqlJsStatic } from 'sql.js';
+import { Word, WordStatus, LanguageLevel, ReviewLog } from '../types';
+import { pairKey } from './merge';
+import { csvService, CsvRowResult } from './csv';
+import { DEFAULT_EASE } from './scheduler';
+
+// --- ANKI (.apkg) EXCHANGE ---
+// An .apkg is a zip holding a SQLite collection (schema 11), a `media` JSON index and the media
+// files named 0, 1, 2... Both sql.js (wasm) and fflate are loaded on first use only.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const FIELD_SEPARATOR = '\x1f';
+
+export type AnkiField = 'polish' | 'english' | 'exampleSentence';
+
+// Index into AnkiDeck.fieldNames, null = not imported
+export type AnkiMapping = Record<AnkiField, number | null>;
+
+export interface AnkiCard {
+  type: number; // 0 new, 1 learning, 2 review, 3 relearning
+  due: number; // Already converted to a timestamp (ms) for learning/review cards
+  ivl: number; // Days
+  factor: number; // Permille, 2500 = 2.5
+  reps: number;
+  lapses: number;
+  lastReview: number | null;
+}
+
+export interface AnkiNote {
+  fields: Record<string, string>; // Field name -> raw HTML
+  tags: string[];
+  deck: string;
+  card?: AnkiCard;
+}
+
+export interface AnkiDeck {
+  fieldNames: string[]; // Union over all note types, in order of first appearance
+  notes: AnkiNote[];
+  media: Record<string, Uint8Array>; // Filename -> bytes
+}
+
+export interface AnkiImportRow extends CsvRowResult {
+  image?: string; // Data URL of the first picture on the note
+}
+
+let sqlPromise: Promise<SqlJsStatic> | null = null;
+
+const loadSql = (): Promise<SqlJsStatic> => {
+  if (!sqlPromise) {
+    sqlPromise = Promise.all([import('sql.js'), import('sql.js/dist/sql-wasm-browser.wasm?url')])
+      .then(([sql, wasm]) => sql.default({ locateFile: () => wasm.default }))
+      .catch(e => { sqlPromise = null; throw e; });
+  }
+  return sqlPromise;
+};
+
+const generateId = () => Math.random().toString(36).substr(2, 9);
+
+const query = (db: Database, sql: string): any[][] => db.exec(sql)[0]?.values ?? [];
+
+const tableExists = (db: Database, name: string) =>
+  query(db, `SELECT name FROM sqlite_master WHERE type = 'table' AND name = '${name}'`).length > 0;
+
+const MIME_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg', jpeg: 'image/jpeg', png: 'image/png', gif: 'image/gif', webp: 'image/webp', svg: 'image/svg+xml',
+};
+
+const bytesToDataUrl = (bytes: Uint8Array, filename: string): string | undefined => {
+  const mime = MIME_TYPES[filename.split('.').pop()?.toLowerCase() || ''];
+  if (!mime) return undefined;
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return `data:${mime};base64,${btoa(binary)}`;
+};
+
+/**
+ * Field HTML -> plain text. Drops sound tags and line breaks, decodes entities.
+ */
+const htmlToText = (html: string): string => {
+  const withoutMedia = html.replace(/\[sound:[^\]]*\]/g, '').replace(/<br\s*\/?>|<div>/gi, ' ');
+  const text = new DOMParser().parseFromString(withoutMedia, 'text/html').body.textContent || '';
+  return text.replace(/\s+/g, ' ').trim();
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Field names per note type id. Schema 11 keeps note types as JSON in `col.models`,
+ * collections upgraded by newer Anki versions have a separate `fields` table.
+ */
+const readNoteTypes = (db: Database): Map<number, string[]> => {
+  const types = new Map<number, string[]>();
+  const modelsJson = query(db, 'SELECT models FROM col')[0]?.[0];
+  const models = modelsJson ? JSON.parse(modelsJson) : {};
+
+  Object.values(models).forEach((m: any) => {
+    const fields = [...(m.flds || [])].sort((a: any, b: any) => a.ord - b.ord).map((f: any) => String(f.name));
+    types.set(Number(m.id), fields);
+  });
+
+  if (types.size === 0 && tableExists(db, 'fields')) {
+    query(db, 'SELECT ntid, ord, name FROM fields ORDER BY ntid, ord').forEach(([ntid, , name]) => {
+      const list = types.get(Number(ntid)) || [];
+      list.push(String(name));
+      types.set(Number(ntid), list);
+    });
+  }
+  return types;
+};
+
+const readDeckNames = (db: Database): Map<number, string> => {
+  const names = new Map<number, string>();
+  const decksJson = query(db, 'SELECT decks FROM col')[0]?.[0];
+  const decks = decksJson ? JSON.parse(decksJson) : {};
+  Object.values(decks).forEach((d: any) => names.set(Number(d.id), String(d.name)));
+
+  if (names.size === 0 && tableExists(db, 'decks')) {
+    query(db, 'SELECT id, name FROM decks').forEach(([id, name]) => names.set(Number(id), String(name)));
+  }
+  return names;
+};
+
+/**
+ * Scheduling of the first card of each note (the "forward" card when a note has several).
+ */
+const readCards = (db: Database): Map<number, AnkiCard & { did: number }> => {
+  const crt = Number(query(db, 'SELECT crt FROM col')[0]?.[0]) || 0;
+  const lastReviews = new Map<number, number>();
+  query(db, 'SELECT cid, MAX(id) FROM revlog GROUP BY cid').forEach(([cid, ts]) => lastReviews.set(Number(cid), Number(ts)));
+
+  const cards = new Map<number, AnkiCard & { did: number }>();
+  query(db, 'SELECT id, nid, did, type, due, ivl, factor, reps, lapses FROM cards ORDER BY nid, ord').forEach(row => {
+    const [id, nid, did, type, due, ivl, factor, reps, lapses] = row.map(Number);
+    if (cards.has(nid)) return;
+    cards.set(nid, {
+      did,
+      type,
+      // Review cards count due in days since the collection was created, learning cards use epoch seconds
+      due: type === 2 ? (crt + due * 86400) * 1000 : type === 1 || type === 3 ? due * 1000 : 0,
+      ivl: Math.max(0, ivl),
+      factor,
+      reps,
+      lapses,
+      lastReview: lastReviews.get(id) ?? null,
+    });
+  });
+  return cards;
+};
+
+/**
+ * SM-2 state for a word from its Anki card.
+ */
+const scheduleFromCard = (card: AnkiCard): Partial<Word> => {
+  if (card.type === 0 || !card.due) return {};
+  const nextReview = card.due;
+  return {
+    status: card.type === 2 && card.ivl >= 21 ? WordStatus.Learned : WordStatus.Learning,
+    nextReview,
+    lastReview: card.lastReview ?? (card.ivl > 0 ? nextReview - card.ivl * DAY_MS : null),
+    interval: card.ivl,
+    easeFactor: card.factor >= 1300 ? card.factor / 1000 : DEFAULT_EASE,
+    repetitions: card.type === 2 ? Math.max(1, card.reps - card.lapses) : 0,
+    lapses: card.lapses,
+  };
+};
+
+// --- EXPORT HELPERS ---
+
+const sha1Checksum = async (text: string): Promise<number> => {
+  const hash = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(text));
+  const bytes = new Uint8Array(hash);
+  return ((bytes[0] << 24) >>> 0) + (bytes[1] << 16) + (bytes[2] << 8) + bytes[3];
+};
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg', 'image/png': 'png', 'image/gif': 'gif', 'image/webp': 'webp', 'image/svg+xml': 'svg',
+};
+
+/**
+ * Bytes of a cached image (data URL or remote URL). Remote images that can't be fetched are skipped.
+ */
+const fetchImage = async (url: string): Promise<{ bytes: Uint8Array; ext: string } | null> => {
+  try {
+    const response = await fetch(url);
+    if (!response.ok) return null;
+    const blob = await response.blob();
+    const ext = EXTENSIONS[blob.type.split(';')[0]];
+    if (!ext) return null;
+    return { bytes: new Uint8Array(await blob.arrayBuffer()), ext };
+  } catch {
+    return null;
+  }
+};
+
+const SCHEMA_SQL = `
+CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, scm integer not null, ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null, models text not null, decks text not null, dconf text not null, tags text not null);
+CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, mod integer not null, usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null, flags integer not null, data text not null);
+CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null, ord integer not null, mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null, ivl integer not null, factor integer not null, reps integer not null, lapses integer not null, left integer not null, odue integer not null, odid integer not null, flags integer not null, data text not null);
+CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null, ease integer not null, ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null, type integer not null);
+CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+CREATE INDEX ix_notes_usn on notes (usn);
+CREATE INDEX ix_cards_usn on cards (usn);
+CREATE INDEX ix_revlog_usn on revlog (usn);
+CREATE INDEX ix_cards_nid on cards (nid);
+CREATE INDEX ix_cards_sched on cards (did, queue, due);
+CREATE INDEX ix_revlog_cid on revlog (cid);
+CREATE INDEX ix_notes_csum on notes (csum);
+`;
+
+const EXPORT_FIELDS = ['Polish', 'English', 'Example', 'Image'];
+
+const collectionJson = (modelId: number, deckId: number, deckName: string, nowSec: number) => {
+  const deck = (id: number, name: string) => ({
+    id, name, mod: nowSec, usn: -1, desc: '', dyn: 0, conf: 1, collapsed: false, browserCollapsed: false,
+    extendNew: 0, extendRev: 0, newToday: [0, 0], revToday: [0, 0], lrnToday: [0, 0], timeToday: [0, 0],
+  });
+
+  return {
+    conf: {
+      activeDecks: [deckId], curDeck: deckId, curModel: modelId, nextPos: 1, estTimes: true, sortType: 'noteFld',
+      sortBackwards: false, timeLim: 0, addToCur: true, newSpread: 0, dueCounts: true, collapseTime: 1200,
+    },
+    models: {
+      [modelId]: {
+        id: modelId, name: 'AI Vocabulary (PL-EN)', type: 0, mod: nowSec, usn: -1, sortf: 0, did: deckId, tags: [], vers: [],
+        flds: EXPORT_FIELDS.map((name, ord) => ({ name, ord, sticky: false, rtl: false, font: 'Arial', size: 20, media: [] })),
+        tmpls: [{
+          name: 'PL → EN', ord: 0, did: null, bqfmt: '', bafmt: '',
+          qfmt: '{{Polish}}',
+          afmt: '{{FrontSide}}<hr id=answer>{{English}}<br><i>{{Example}}</i><br>{{Image}}',
+        }],
+        req: [[0, 'any', [0]]],
+        css: '.card { font-family: arial; font-size: 20px; text-align: center; color: black; background-color: white; }\nimg { max-width: 100%; }',
+        latexPre: '\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n',
+        latexPost: '\\end{document}',
+        latexsvg: false,
+      },
+    },
+    decks: { 1: deck(1, 'Default'), [deckId]: deck(deckId, deckName) },
+    dconf: {
+      1: {
+        id: 1, name: 'Default', mod: nowSec, usn: -1, maxTaken: 60, autoplay: true, timer: 0, replayq: true, dyn: false,
+        new: { delays: [1, 10], ints: [1, 4, 0], initialFactor: 2500, order: 1, perDay: 20, bury: false },
+        rev: { perDay: 200, ease4: 1.3, ivlFct: 1, maxIvl: 36500, bury: false, hardFactor: 1.2 },
+        lapse: { delays: [10], mult: 0, minInt: 1, leechFails: 8, leechAction: 1 },
+      },
+    },
+  };
+};
+
+export const ankiService = {
+  /**
+   * Unzips an .apkg and reads its notes, first-card scheduling and media.
+   */
+  readPackage: async (buffer: ArrayBuffer): Promise<AnkiDeck> => {
+    const [{ unzipSync, strFromU8 }, SQL] = await Promise.all([import('fflate'), loadSql()]);
+    const files = unzipSync(new Uint8Array(buffer));
+
+    // Anki 2.1.50+ writes a zstd-compressed collection.anki21b next to a placeholder collection.anki2
+    const collection = files['collection.anki21'] || (!files['collection.anki21b'] && files['collection.anki2']);
+    if (!collection) {
+      throw new Error('Ta talia jest w nowym formacie Anki. Wyeksportuj ją ponownie z zaznaczoną opcją "Wsparcie dla starszych wersji Anki".');
+    }
+
+    const db = new SQL.Database(collection);
+    try {
+      const noteTypes = readNoteTypes(db);
+      const deckNames = readDeckNames(db);
+      const cards = readCards(db);
+      const fieldNames: string[] = [];
+
+      const notes: AnkiNote[] = query(db, 'SELECT id, mid, tags, flds FROM notes ORDER BY id').map(([id, mid, tags, flds]) => {
+        const names = noteTypes.get(Number(mid)) || [];
+        const values = String(flds).split(FIELD_SEPARATOR);
+        const fields: Record<string, string> = {};
+        values.forEach((value, i) => {
+          const name = names[i] || `Pole ${i + 1}`;
+          if (!fieldNames.includes(name)) fieldNames.push(name);
+          fields[name] = value;
+        });
+        const card = cards.get(Number(id));
+        return {
+          fields,
+          tags: String(tags).trim().split(/\s+/).filter(Boolean),
+          // Subdecks are "Parent::Child" (or \x1f-separated in newer collections); the leaf is the most specific topic
+          deck: (card && deckNames.get(card.did) || '').split(/::|\x1f/).pop() || '',
+          card,
+        };
+      });
+
+      const media: Record<string, Uint8Array> = {};
+      const index = files['media'] ? JSON.parse(strFromU8(files['media']) || '{}') : {};
+      Object.entries(index).forEach(([entry, filename]) => {
+        if (files[entry]) media[String(filename)] = files[entry];
+      });
+
+      return { fieldNames, notes, media };
+    } finally {
+      db.close();
+    }
+  },
+
+  /**
+   * Guesses the mapping from field names (same aliases as the CSV import), falling back to the first two fields.
+   */
+  guessMapping: (fieldNames: string[]): AnkiMapping => {
+    const { mapping } = csvService.guessMapping(fieldNames);
+    return { polish: mapping.polish, english: mapping.english, exampleSentence: mapping.exampleSentence };
+  },
+
+  /**
+   * Turns notes into words. With `keepSchedule` the Anki review state becomes the word's SM-2 state,
+   * otherwise every word starts as new.
+   */
+  buildWords: (deck: AnkiDeck, mapping: AnkiMapping, keepSchedule: boolean, existing: Word[], defaultLevel: LanguageLevel): AnkiImportRow[] => {
+    const known = new Set(existing.map(pairKey));
+    const levels = Object.values(LanguageLevel) as string[];
+    const field = (note: AnkiNote, key: AnkiField) => {
+      const idx = mapping[key];
+      return idx === null ? '' : htmlToText(note.fields[deck.fieldNames[idx]] || '');
+    };
+
+    return deck.notes.map((note, i) => {
+      const polish = field(note, 'polish');
+      const english = field(note, 'english');
+      if (!polish || !english) {
+        return { row: i + 1, error: 'Brak słowa polskiego lub angielskiego' };
+      }
+
+      const levelTag = note.tags.map(t => t.toUpperCase()).find(t => levels.includes(t));
+      const word: Word = {
+        id: generateId(),
+        polish,
+        english,
+        category: note.deck && note.deck !== 'Default' ? note.deck : 'anki',
+        level: (levelTag as LanguageLevel) || defaultLevel,
+        status: WordStatus.New,
+        nextReview: Date.now(),
+        lastReview: null,
+        attempts: 0,
+        correct: 0,
+        aiGenerated: false,
+        createdAt: Date.now(),
+        exampleSentence: field(note, 'exampleSentence') || undefined,
+      };
+      if (keepSchedule && note.card) {
+        Object.assign(word, scheduleFromCard(note.card), {
+          attempts: note.card.reps,
+          correct: Math.max(0, note.card.reps - note.card.lapses),
+        });
+      }
+
+      const imageName = Object.values(note.fields).join(' ').match(/<img[^>]+src=["']?([^"'>]+)/i)?.[1];
+      const imageBytes = imageName ? deck.media[decodeURIComponent(imageName)] || deck.media[imageName] : undefined;
+
+      const key = pairKey(word);
+      const duplicate = known.has(key);
+      known.add(key);
+      return { row: i + 1, word, duplicate, image: imageBytes ? bytesToDataUrl(imageBytes, imageName!) : undefined };
+    });
+  },
+
+  /**
+   * Builds an .apkg with one Polish -> English card per word, its current schedule, review history and images.
+   * `getImage` returns the cached image URL of a word, if any.
+   */
+  exportPackage: async (words: Word[], logs: ReviewLog[], deckName: string, getImage: (word: Word) => Promise<string | undefined>): Promise<Blob> => {
+    const [{ zipSync, strToU8 }, SQL] = await Promise.all([import('fflate'), loadSql()]);
+    const db = new SQL.Database();
+
+    try {
+      db.exec(SCHEMA_SQL);
+      const now = Date.now();
+      const nowSec = Math.floor(now / 1000);
+      const crtDate = new Date(now);
+      crtDate.setHours(4, 0, 0, 0); // Anki's default day rollover
+      const crt = Math.floor(crtDate.getTime() / 1000);
+      const modelId = now;
+      const deckId = now + 1;
+
+      const json = collectionJson(modelId, deckId, deckName, nowSec);
+      db.run('INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, ?)', [
+        crt, now, now, JSON.stringify(json.conf), JSON.stringify(json.models), JSON.stringify(json.decks), JSON.stringify(json.dconf), '{}',
+      ]);
+
+      const mediaIndex: Record<string, string> = {};
+      const zipFiles: Record<string, Uint8Array> = {};
+      const cardIds = new Map<string, number>();
+
+      for (let i = 0; i < words.length; i++) {
+        const w = words[i];
+        const noteId = now + i;
+        const cardId = now + i;
+        cardIds.set(w.id, cardId);
+
+        let imageField = '';
+        const imageUrl = await getImage(w);
+        const image = imageUrl ? await fetchImage(imageUrl) : null;
+        if (image) {
+          const entry = String(Object.keys(mediaIndex).length);
+          const filename = `ai_vocab_${w.id}.${image.ext}`;
+          mediaIndex[entry] = filename;
+          zipFiles[entry] = image.bytes;
+          imageField = `<img src="${filename}">`;
+        }
+
+        const fields = [escapeHtml(w.polish), escapeHtml(w.english), escapeHtml(w.exampleSentence || ''), imageField];
+        db.run('INSERT INTO notes VALUES (?, ?, ?, ?, -1, ?, ?, ?, ?, 0, \'\')', [
+          noteId, generateId() + generateId(), modelId, nowSec, ` ${w.level} ${w.category.replace(/\s+/g, '_')} `,
+          fields.join(FIELD_SEPARATOR), w.polish, await sha1Checksum(w.polish),
+        ]);
+
+        const interval = Math.round(w.interval ?? 0);
+        const isNew = w.status === WordStatus.New || !w.lastReview;
+        const isReview = !isNew && interval >= 1;
+        const type = isNew ? 0 : isReview ? 2 : 1;
+        const due = isNew ? i + 1 : isReview ? Math.max(0, Math.round((w.nextReview / 1000 - crt) / 86400)) : Math.floor(w.nextReview / 1000);
+        db.run('INSERT INTO cards VALUES (?, ?, ?, 0, ?, -1, ?, ?, ?, ?, ?, ?, ?, 0, 0, 0, 0, \'\')', [
+          cardId, noteId, deckId, nowSec, type, type, due, isReview ? interval : 0,
+          isNew ? 0 : Math.round((w.easeFactor ?? DEFAULT_EASE) * 1000), w.attempts, w.lapses ?? 0,
+        ]);
+      }
+
+      // Anki stores sub-day intervals as negative seconds
+      const ankiInterval = (days: number) => days >= 1 ? Math.round(days) : -Math.round(days * 86400);
+      const usedIds = new Set<number>();
+      logs.forEach(log => {
+        const cardId = cardIds.get(log.wordId);
+        // The deck only has Polish -> English cards
+        if (!cardId || log.direction === 'en-pl') return;
+        let id = log.timestamp;
+        while (usedIds.has(id)) id++;
+        usedIds.add(id);
+        db.run('INSERT INTO revlog VALUES (?, ?, -1, ?, ?, ?, 0, ?, ?)', [
+          id, cardId, log.grade, ankiInterval(log.nextInterval), ankiInterval(log.previousInterval),
+          Math.min(log.responseTimeMs, 60000), log.previousInterval === 0 ? 0 : 1,
+        ]);
+      });
+
+      zipFiles['collection.anki2'] = db.export();
+      zipFiles['media'] = strToU8(JSON.stringify(mediaIndex));
+      return new Blob([zipSync(zipFiles)], { type: 'application/octet-stream' });
+    } finally {
+      db.close();
+    }
+  },
+};
@@ -0,0 +1,130 @@
+import { Word, StudyDirection } from '../types';
+import { levenshtein } from './stringDistance';
+
+// --- ANSWER MATCHING ---
+// Checks a typed answer locally before anything is sent to the AI. Accepted without a penalty:
+// optional articles and "to" ("the cat", "to run"), British/American spelling ("colour" / "color")
+// and the word's alternative answers. Small typos and missing Polish characters count as "almost".
+
+export type MatchKind =
+  | 'exact'      // Same text (case, spacing and punctuation aside)
+  | 'variant'    // Only an article, "to" or the spelling variant differs
+  | 'diacritics' // Polish answer typed without Polish characters
+  | 'typo'       // Close enough to be a typo
+  | 'wrong';
+
+export interface AnswerMatch {
+  kind: MatchKind;
+  expected: string; // The accepted answer the input was matched against (the main one if wrong)
+  message: string;
+}
+
+type Language = 'en' | 'pl';
+
+// British -> American for words the suffix rules below don't cover
+const SPELLING: Record<string, string> = {
+  grey: 'gray', programme: 'program', tyre: 'tire', kerb: 'curb', cheque: 'check', plough: 'plow',
+  aluminium: 'aluminum', mum: 'mom', jewellery: 'jewelry', pyjamas: 'pajamas', doughnut: 'donut',
+  cosy: 'cozy', sceptical: 'skeptical', mould: 'mold', moustache: 'mustache', ageing: 'aging',
+  draught: 'draft', manoeuvre: 'maneuver', aeroplane: 'airplane', practise: 'practice', axe: 'ax',
+  licence: 'license', defence: 'defense', offence: 'offense', pretence: 'pretense',
+  travelled: 'traveled', travelling: 'traveling', traveller: 'traveler', cancelled: 'canceled',
+  cancelling: 'canceling', labelled: 'labeled', modelling: 'modeling', jeweller: 'jeweler',
+  counsellor: 'counselor', fulfil: 'fulfill', enrol: 'enroll', skilful: 'skillful', instalment: 'installment',
+  catalogue: 'catalog', dialogue: 'dialog', analogue: 'analog', analyse: 'analyze', paralyse: 'paralyze',
+  centre: 'center', theatre: 'theater', metre: 'meter', litre: 'liter', fibre: 'fiber',
+};
+
+const americanize = (word: string): string => {
+  if (SPELLING[word]) return SPELLING[word];
+  return word
+    // colour, favourite, neighbours (but not hour, four, flour)
+    .replace(/^(\w{3,})our(s|ed|ing|ite|ites|able)?$/, '$1or$2')
+    // realise, organisation
+    .replace(/^(\w{3,})is(e|es|ed|ing|ation|ations)$/, '$1iz$2');
+};
+
+// "źdźbło" -> "zdzblo". "ł" is a letter of its own, not l + accent, so it is mapped by hand.
+const stripDiacritics = (s: string) => s.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/ł/g, 'l');
+
+// Case, curly quotes, hyphens, punctuation and notes in brackets ("bank (river)") never matter
+const clean = (s: string) => s
+  .toLowerCase()
+  .normalize('NFC')
+  .replace(/[’‘`]/g, "'")
+  .replace(/\(.*?\)/g, ' ')
+  .replace(/[-–.,!?;:"„”«»]/g, ' ')
+  .replace(/\s+/g, ' ')
+  .trim();
+
+const variantForm = (s: string, language: Language): string => {
+  if (language === 'pl') return s;
+  return s
+    .replace(/^(to|a|an|the) /, '')
+    .split(' ')
+    .map(americanize)
+    .join(' ');
+};
+
+const looseForm = (s: string, language: Language) => {
+  const variant = variantForm(s, language);
+  return language === 'pl' ? stripDiacritics(variant) : variant;
+};
+
+// Edits tolerated as a typo: none in short words, where one letter already makes another word
+const allowedTypos = (length: number) => length <= 4 ? 0 : length <= 8 ? 1 : 2;
+
+const KIND_ORDER: MatchKind[] = ['exact', 'variant', 'diacritics', 'typo', 'wrong'];
+
+const matchOne = (input: string, answer: string, language: Language): MatchKind => {
+  const a = clean(input);
+  const b = clean(answer);
+  if (!a || !b) return 'wrong';
+  if (a === b) return 'exact';
+  if (variantForm(a, language) === variantForm(b, language)) return 'variant';
+
+  const looseA = looseForm(a, language);
+  const looseB = looseForm(b, language);
+  if (language === 'pl' && looseA === looseB) return 'diacritics';
+  if (levenshtein(looseA, looseB) <= allowedTypos(looseB.length)) return 'typo';
+  return 'wrong';
+};
+
+/**
+ * Every answer accepted for a word in the given direction, main translation first.
+ * Lists stored in the word itself ("ładny, piękny", "bank / shore") count as separate answers.
+ */
+export const acceptedAnswers = (word: Word, direction: StudyDirection): string[] => {
+  const main = direction === 'en-pl' ? word.polish : word.english;
+  const alternatives = (direction === 'en-pl' ? word.polishAlternatives : word.englishAlternatives) || [];
+  const parts = main.split(/[,;/]/).map(p => p.trim()).filter(Boolean);
+  return Array.from(new Set([main.trim(), ...parts, ...alternatives.map(a => a.trim()).filter(Boolean)]));
+};
+
+const messageFor = (kind: MatchKind, expected: string, main: string): string => {
+  switch (kind) {
+    // One item of a list like "ładny, piękny" is as good as the whole
+    case 'exact': return main.includes(expected) ? 'Idealnie!' : `Dobrze! Główne tłumaczenie: ${main}`;
+    case 'variant': return `Dobrze! (${expected})`;
+    case 'diacritics': return `Prawie! Z polskimi znakami: ${expected}`;
+    case 'typo': return `Prawie! Poprawnie: ${expected}`;
+    default: return 'Błędnie';
+  }
+};
+
+/**
+ * Compares an answer with every accepted answer and returns the best match.
+ */
+export const matchAnswer = (input: string, word: Word, direction: StudyDirection): AnswerMatch => {
+  const language: Language = direction === 'en-pl' ? 'pl' : 'en';
+  const answers = acceptedAnswers(word, direction);
+  const main = answers[0];
+
+  let best: { kind: MatchKind; expected: string } = { kind: 'wrong', expected: main };
+  for (const answer of answers) {
+    const kind = matchOne(input, answer, language);
+    if (KIND_ORDER.indexOf(kind) < KIND_ORDER.indexOf(best.kind)) best = { kind, expected: answer };
+    if (kind === 'exact') break;
+  }
+  return { ...best, message: messageFor(best.kind, best.expected, main) };
+};
@@ -0,0 +1,85 @@
+import { Word } from '../types';
+import { pairKey } from './merge';
+
+// --- BULK PASTE ---
+// Parses free-form "word - translation" lines pasted into AddWordModal.
+// Each line holds up to three parts: two sides of the word and an optional category.
+
+export type PasteOrder = 'pl-en' | 'en-pl';
+
+export interface PasteRow {
+  id: string;
+  line: number; // 1-based line of the pasted text
+  polish: string;
+  english: string;
+  category: string;
+  exampleSentence?: string;
+  error?: string;
+  duplicate?: boolean;
+}
+
+const POLISH_LETTERS = /[ąćęłńóśźż]/i;
+const SEPARATOR = /\s+-\s+|\s*[–—=]\s*/;
+
+const generateId = () => Math.random().toString(36).substr(2, 9);
+
+/**
+ * Splits a line on the first separator type it contains: tab, semicolon, then a spaced dash or "=".
+ * A bare hyphen is not a separator so words like "well-known" survive.
+ */
+const splitLine = (line: string): string[] => {
+  if (line.includes('\t')) return line.split('\t');
+  if (line.includes(';')) return line.split(';');
+  if (SEPARATOR.test(line)) return line.split(SEPARATOR);
+  return [line];
+};
+
+export const bulkPasteService = {
+  /**
+   * Turns pasted text into rows. Polish diacritics decide which side is Polish;
+   * without them the order picked by the user applies.
+   */
+  parse: (text: string, order: PasteOrder, defaultCategory: string): PasteRow[] => {
+    const rows: PasteRow[] = [];
+
+    text.split(/\r?\n/).forEach((raw, i) => {
+      if (!raw.trim()) return;
+      const parts = splitLine(raw).map(p => p.trim());
+      const row: PasteRow = { id: generateId(), line: i + 1, polish: '', english: '', category: parts[2] || defaultCategory || 'własne' };
+
+      if (parts.length > 3) {
+        rows.push({ ...row, english: parts[0], error: 'Za dużo kolumn (maks. 3: słowo, tłumaczenie, kategoria)' });
+        return;
+      }
+
+      let [first, second = ''] = parts;
+      const firstIsPolish = POLISH_LETTERS.test(first) && !POLISH_LETTERS.test(second);
+      const secondIsPolish = POLISH_LETTERS.test(second) && !POLISH_LETTERS.test(first);
+      const polishFirst = firstIsPolish || (!secondIsPolish && order === 'pl-en');
+      row.polish = polishFirst ? first : second;
+      row.english = polishFirst ? second : first;
+
+      if (!row.polish && !row.english) row.error = 'Pusta linia';
+      rows.push(row);
+    });
+
+    return rows;
+  },
+
+  /**
+   * Flags rows that repeat an earlier row or a word already in the base.
+   * Rows missing a side are left alone – the AI fills them in later.
+   */
+  markDuplicates: (rows: PasteRow[], existing: Word[]): PasteRow[] => {
+    const known = new Set(existing.map(pairKey));
+    return rows.map(row => {
+      if (row.error || !row.polish || !row.english) return { ...row, duplicate: false };
+      const key = pairKey(row);
+      const duplicate = known.has(key);
+      known.add(key);
+      return { ...row, duplicate };
+    });
+  },
+
+  needsCompletion: (row: PasteRow) => !row.error && !row.duplicate && (!row.polish || !row.english || !row.exampleSentence),
+};
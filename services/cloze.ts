@@ -0,0 +1,136 @@
+// --- CLOZE (FILL IN THE BLANK) ---
+// Finds the studied word in its example sentence, also when the sentence uses an inflected form
+// ("run" -> "runs", "running", "ran"), and splits the sentence around it.
+
+export interface Cloze {
+  before: string;
+  answer: string; // The form used in the sentence, e.g. "ran"
+  after: string;
+}
+
+// Past simple and past participle of common irregular verbs
+const IRREGULAR_VERBS: Record<string, string[]> = {
+  be: ['am', 'is', 'are', 'was', 'were', 'been', 'being'],
+  have: ['has', 'had', 'having'],
+  do: ['does', 'did', 'done', 'doing'],
+  go: ['goes', 'went', 'gone'],
+  arise: ['arose', 'arisen'], awake: ['awoke', 'awoken'], bear: ['bore', 'born', 'borne'], beat: ['beat', 'beaten'],
+  become: ['became', 'become'], begin: ['began', 'begun'], bend: ['bent'], bet: ['bet'], bite: ['bit', 'bitten'],
+  bleed: ['bled'], blow: ['blew', 'blown'], break: ['broke', 'broken'], breed: ['bred'], bring: ['brought'],
+  build: ['built'], burn: ['burnt', 'burned'], buy: ['bought'], catch: ['caught'], choose: ['chose', 'chosen'],
+  come: ['came', 'come'], cost: ['cost'], creep: ['crept'], cut: ['cut'], deal: ['dealt'], dig: ['dug'],
+  draw: ['drew', 'drawn'], dream: ['dreamt', 'dreamed'], drink: ['drank', 'drunk'], drive: ['drove', 'driven'],
+  eat: ['ate', 'eaten'], fall: ['fell', 'fallen'], feed: ['fed'], feel: ['felt'], fight: ['fought'],
+  find: ['found'], fly: ['flew', 'flown', 'flies'], forbid: ['forbade', 'forbidden'], forget: ['forgot', 'forgotten'],
+  forgive: ['forgave', 'forgiven'], freeze: ['froze', 'frozen'], get: ['got', 'gotten'], give: ['gave', 'given'],
+  grow: ['grew', 'grown'], hang: ['hung'], hear: ['heard'], hide: ['hid', 'hidden'], hit: ['hit'],
+  hold: ['held'], hurt: ['hurt'], keep: ['kept'], know: ['knew', 'known'], lay: ['laid'], lead: ['led'],
+  learn: ['learnt', 'learned'], leave: ['left'], lend: ['lent'], let: ['let'], lie: ['lay', 'lain', 'lying'],
+  light: ['lit'], lose: ['lost'], make: ['made'], mean: ['meant'], meet: ['met'], pay: ['paid'], put: ['put'],
+  quit: ['quit'], read: ['read'], ride: ['rode', 'ridden'], ring: ['rang', 'rung'], rise: ['rose', 'risen'],
+  run: ['ran', 'run'], say: ['said'], see: ['saw', 'seen'], seek: ['sought'], sell: ['sold'], send: ['sent'],
+  set: ['set'], shake: ['shook', 'shaken'], shine: ['shone'], shoot: ['shot'], show: ['showed', 'shown'],
+  shut: ['shut'], sing: ['sang', 'sung'], sink: ['sank', 'sunk'], sit: ['sat'], sleep: ['slept'],
+  slide: ['slid'], speak: ['spoke', 'spoken'], spend: ['spent'], spill: ['spilt', 'spilled'], split: ['split'],
+  spread: ['spread'], stand: ['stood'], steal: ['stole', 'stolen'], stick: ['stuck'], sting: ['stung'],
+  strike: ['struck'], swear: ['swore', 'sworn'], sweep: ['swept'], swim: ['swam', 'swum'], swing: ['swung'],
+  take: ['took', 'taken'], teach: ['taught'], tear: ['tore', 'torn'], tell: ['told'], think: ['thought'],
+  throw: ['threw', 'thrown'], understand: ['understood'], wake: ['woke', 'woken'], wear: ['wore', 'worn'],
+  weep: ['wept'], win: ['won'], wind: ['wound'], write: ['wrote', 'written'],
+};
+
+const IRREGULAR_NOUNS: Record<string, string[]> = {
+  child: ['children'], man: ['men'], woman: ['women'], person: ['people'], mouse: ['mice'], foot: ['feet'],
+  tooth: ['teeth'], goose: ['geese'], knife: ['knives'], wife: ['wives'], life: ['lives'], leaf: ['leaves'],
+  half: ['halves'], wolf: ['wolves'], shelf: ['shelves'], thief: ['thieves'],
+};
+
+const IRREGULAR_ADJECTIVES: Record<string, string[]> = {
+  good: ['better', 'best'], bad: ['worse', 'worst'], far: ['farther', 'further', 'farthest', 'furthest'],
+  little: ['less', 'least'], many: ['more', 'most'], much: ['more', 'most'],
+};
+
+const VOWELS = 'aeiou';
+
+// "stop" -> "stopp", "plan" -> "plann": short words ending consonant-vowel-consonant double the last letter
+const doubled = (word: string): string | null => {
+  const [a, b, c] = word.slice(-3);
+  if (word.length < 3 || word.length > 5 || !c || 'wxy'.includes(c)) return null;
+  return !VOWELS.includes(a) && VOWELS.includes(b) && !VOWELS.includes(c) ? word + c : null;
+};
+
+/**
+ * Regular and irregular forms of a single English word: plural / 3rd person, past, -ing,
+ * comparative and superlative. Over-generating is harmless, only forms found in the sentence count.
+ */
+export const inflections = (word: string): string[] => {
+  const w = word.toLowerCase();
+  const forms = new Set<string>([w]);
+  const add = (...items: (string | null)[]) => items.forEach(i => { if (i) forms.add(i); });
+
+  (IRREGULAR_VERBS[w] || []).forEach(f => add(f));
+  (IRREGULAR_NOUNS[w] || []).forEach(f => add(f));
+  (IRREGULAR_ADJECTIVES[w] || []).forEach(f => add(f));
+
+  const last = w.slice(-1);
+  const beforeLast = w.slice(-2, -1);
+  const stem = w.endsWith('e') ? w.slice(0, -1) : w;
+  const double = doubled(w);
+
+  // -s / -es / -ies
+  if (last === 'y' && !VOWELS.includes(beforeLast)) add(`${w.slice(0, -1)}ies`);
+  else if (/(s|x|z|ch|sh|o)$/.test(w)) add(`${w}es`);
+  else add(`${w}s`);
+
+  // -ed / -ing / -er / -est
+  if (last === 'y' && !VOWELS.includes(beforeLast)) {
+    const base = w.slice(0, -1);
+    add(`${base}ied`, `${base}ier`, `${base}iest`);
+  } else {
+    add(`${stem}ed`, `${stem}er`, `${stem}est`);
+  }
+  add(w.endsWith('ie') ? `${w.slice(0, -2)}ying` : w.endsWith('ee') ? `${w}ing` : `${stem}ing`, `${w}ing`);
+  if (double) add(`${double}ed`, `${double}ing`, `${double}er`, `${double}est`);
+
+  return Array.from(forms);
+};
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Forms of the (possibly multi-word) target to look for. In phrases the first word is inflected
+ * ("look after" -> "looked after") and so is the last ("ice cream" -> "ice creams").
+ */
+const candidates = (english: string): string[] => {
+  const target = english.trim().toLowerCase()
+    .replace(/^(to|a|an|the)\s+/, '')
+    .replace(/\s*\(.*?\)\s*/g, ' ')
+    .trim();
+  const parts = target.split(/\s+/);
+  if (parts.length === 1) return inflections(target);
+
+  const first = inflections(parts[0]).map(f => [f, ...parts.slice(1)].join(' '));
+  const last = inflections(parts[parts.length - 1]).map(f => [...parts.slice(0, -1), f].join(' '));
+  return Array.from(new Set([target, ...first, ...last]));
+};
+
+/**
+ * Blanks the target word out of the sentence, or returns null if it can't be found there.
+ */
+export const makeCloze = (sentence: string, english: string): Cloze | null => {
+  // Longest first, so "running" wins over "run"
+  const forms = candidates(english).sort((a, b) => b.length - a.length);
+  for (const form of forms) {
+    const pattern = new RegExp(`(^|[^\\p{L}'])(${escapeRegExp(form).replace(/\s+/g, '\\s+')})(?=$|[^\\p{L}'])`, 'iu');
+    const match = pattern.exec(sentence);
+    if (match) {
+      const start = match.index + match[1].length;
+      return {
+        before: sentence.slice(0, start),
+        answer: match[2],
+        after: sentence.slice(start + match[2].length),
+      };
+    }
+  }
+  return null;
+};
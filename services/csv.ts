@@ -0,0 +1,187 @@
+import { Word, WordStatus, LanguageLevel } from '../types';
+import { pairKey } from './merge';
+
+// --- CSV / TSV EXCHANGE ---
+// Plain spreadsheets in and out of the word base. Parsing follows RFC 4180
+// (quoted fields, doubled quotes, line breaks inside quotes) for any single-character delimiter.
+
+export type CsvField = 'polish' | 'english' | 'category' | 'level' | 'exampleSentence';
+
+export const CSV_FIELDS: { field: CsvField; label: string; required: boolean }[] = [
+  { field: 'polish', label: 'Po polsku', required: true },
+  { field: 'english', label: 'Po angielsku', required: true },
+  { field: 'category', label: 'Kategoria', required: false },
+  { field: 'level', label: 'Poziom (A1-C2)', required: false },
+  { field: 'exampleSentence', label: 'Zdanie przykładowe', required: false },
+];
+
+// Column index for each field, null = not imported
+export type CsvMapping = Record<CsvField, number | null>;
+
+// Header names we recognise when guessing the mapping (lowercase)
+const HEADER_ALIASES: Record<CsvField, string[]> = {
+  polish: ['polish', 'pl', 'polski', 'po polsku', 'słowo', 'tłumaczenie'],
+  english: ['english', 'en', 'angielski', 'po angielsku', 'word'],
+  category: ['category', 'kategoria', 'temat', 'topic'],
+  level: ['level', 'poziom', 'cefr'],
+  exampleSentence: ['examplesentence', 'example', 'example sentence', 'przykład', 'zdanie', 'sentence'],
+};
+
+export interface CsvRowResult {
+  // 1-based number of the data record; the header and blank lines are not counted, and a quoted
+  // field may span several lines, so this is not the line in the file
+  row: number;
+  word?: Word;
+  error?: string;
+  duplicate?: boolean;
+}
+
+const generateId = () => Math.random().toString(36).substr(2, 9);
+
+export const csvService = {
+  /**
+   * Picks the delimiter that occurs most often in the first line (outside quotes).
+   */
+  detectDelimiter: (text: string): string => {
+    const firstLine = text.split(/\r?\n/)[0].replace(/"[^"]*"/g, '');
+    const candidates = ['\t', ';', ','];
+    const counts = candidates.map(d => firstLine.split(d).length - 1);
+    const best = counts.indexOf(Math.max(...counts));
+    return counts[best] > 0 ? candidates[best] : ',';
+  },
+
+  parse: (text: string, delimiter: string = csvService.detectDelimiter(text)): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    // Strip the BOM Excel puts in front of UTF-8 files
+    const input = text.replace(/^\uFEFF/, '');
+
+    for (let i = 0; i < input.length; i++) {
+      const char = input[i];
+      if (inQuotes) {
+        if (char === '"') {
+          if (input[i + 1] === '"') { field += '"'; i++; }
+          else inQuotes = false;
+        } else {
+          field += char;
+        }
+      } else if (char === '"' && field === '') {
+        inQuotes = true;
+      } else if (char === delimiter) {
+        row.push(field);
+        field = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && input[i + 1] === '\n') i++;
+        row.push(field);
+        rows.push(row);
+        row = [];
+        field = '';
+      } else {
+        field += char;
+      }
+    }
+    if (field !== '' || row.length > 0) {
+      row.push(field);
+      rows.push(row);
+    }
+
+    // Drop completely empty lines
+    return rows.filter(r => r.some(cell => cell.trim() !== ''));
+  },
+
+  stringify: (rows: (string | number)[][], delimiter: string = ','): string => {
+    const escape = (value: string | number) => {
+      const str = String(value);
+      return /["\r\n]/.test(str) || str.includes(delimiter) ? `"${str.replace(/"/g, '""')}"` : str;
+    };
+    return rows.map(r => r.map(escape).join(delimiter)).join('\r\n');
+  },
+
+  /**
+   * Guesses which column holds which field from the header row.
+   * Without a recognisable header, the first two columns are taken as polish / english.
+   */
+  guessMapping: (header: string[]): { mapping: CsvMapping; hasHeader: boolean } => {
+    const mapping: CsvMapping = { polish: null, english: null, category: null, level: null, exampleSentence: null };
+    const normalized = header.map(h => h.trim().toLowerCase());
+
+    (Object.keys(HEADER_ALIASES) as CsvField[]).forEach(field => {
+      const idx = normalized.findIndex(h => HEADER_ALIASES[field].includes(h));
+      if (idx !== -1) mapping[field] = idx;
+    });
+
+    const hasHeader = mapping.polish !== null || mapping.english !== null;
+    if (!hasHeader) {
+      mapping.polish = 0;
+      mapping.english = header.length > 1 ? 1 : null;
+    }
+    return { mapping, hasHeader };
+  },
+
+  /**
+   * Turns parsed rows into words, flagging invalid rows and duplicates
+   * (against the existing word base and earlier rows of the same file).
+   */
+  buildWords: (rows: string[][], mapping: CsvMapping, hasHeader: boolean, existing: Word[], defaultLevel: LanguageLevel): CsvRowResult[] => {
+    const known = new Set(existing.map(pairKey));
+    const levels = Object.values(LanguageLevel) as string[];
+    const cell = (row: string[], field: CsvField) => {
+      const idx = mapping[field];
+      return idx === null ? '' : (row[idx] || '').trim();
+    };
+
+    return rows.slice(hasHeader ? 1 : 0).map((row, i) => {
+      const polish = cell(row, 'polish');
+      const english = cell(row, 'english');
+      if (!polish || !english) {
+        return { row: i + 1, error: 'Brak słowa polskiego lub angielskiego' };
+      }
+
+      const rawLevel = cell(row, 'level').toUpperCase();
+      if (rawLevel && !levels.includes(rawLevel)) {
+        return { row: i + 1, error: `Nieznany poziom "${rawLevel}"` };
+      }
+
+      const word: Word = {
+        id: generateId(),
+        polish,
+        english,
+        category: cell(row, 'category') || 'własne',
+        level: (rawLevel as LanguageLevel) || defaultLevel,
+        status: WordStatus.New,
+        nextReview: Date.now(),
+        lastReview: null,
+        attempts: 0,
+        correct: 0,
+        aiGenerated: false,
+        createdAt: Date.now(),
+        exampleSentence: cell(row, 'exampleSentence') || undefined,
+      };
+
+      const key = pairKey(word);
+      const duplicate = known.has(key);
+      known.add(key);
+      return { row: i + 1, word, duplicate };
+    });
+  },
+
+  /**
+   * CSV of the word base. With `includeProgress` the learning state is exported too (dates as ISO strings).
+   */
+  exportWords: (words: Word[], includeProgress: boolean): string => {
+    const header = ['polish', 'english', 'category', 'level', 'exampleSentence'];
+    const progressHeader = ['status', 'attempts', 'correct', 'interval', 'easeFactor', 'lastReview', 'nextReview'];
+    const isoDate = (ts: number | null) => ts ? new Date(ts).toISOString() : '';
+
+    const rows = words.map(w => {
+      const base = [w.polish, w.english, w.category, w.level, w.exampleSentence || ''];
+      if (!includeProgress) return base;
+      return [...base, w.status, w.attempts, w.correct, w.interval ?? 0, w.easeFactor ?? '', isoDate(w.lastReview), isoDate(w.nextReview)];
+    });
+
+    // BOM so Excel opens Polish characters correctly
+    return '\uFEFF' + csvService.stringify([includeProgress ? [...header, ...progressHeader] : header, ...rows]);
+  },
+};
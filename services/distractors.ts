@@ -0,0 +1,77 @@
+import { Word, StudyDirection } from '../types';
+import { similarity } from './stringDistance';
+
+// --- MULTIPLE CHOICE DISTRACTORS ---
+// Wrong answers come from the user's own words. The best ones are plausible: same category, same level
+// and a similar spelling ("though" next to "through"). A little randomness keeps the quiz from
+// showing the same four options every time.
+
+export interface QuizQuestion {
+  wordId: string;
+  direction: StudyDirection;
+  prompt: string;    // Shown to the user
+  options: string[]; // Shuffled, contains `answer`
+  answer: string;
+}
+
+const OPTION_COUNT = 4;
+
+const normalize = (s: string) => s.trim().toLowerCase();
+
+const answerOf = (word: Word, direction: StudyDirection) => direction === 'pl-en' ? word.english : word.polish;
+
+const shuffle = <T>(items: T[]): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+const score = (target: Word, candidate: Word, direction: StudyDirection): number => {
+  let points = 0;
+  if (normalize(candidate.category) === normalize(target.category)) points += 3;
+  if (candidate.level === target.level) points += 2;
+  points += 3 * similarity(normalize(answerOf(target, direction)), normalize(answerOf(candidate, direction)));
+  return points + Math.random() * 1.5;
+};
+
+/**
+ * Up to `count` distinct wrong answers for `target`, best first.
+ */
+export const pickDistractors = (target: Word, pool: Word[], direction: StudyDirection, count = OPTION_COUNT - 1): string[] => {
+  const correct = normalize(answerOf(target, direction));
+  // The other side must differ too, otherwise a synonym pair ("big"/"large" = "duży") would be a second right answer
+  const prompt = normalize(direction === 'pl-en' ? target.polish : target.english);
+  const seen = new Set([correct]);
+
+  return pool
+    .filter(w => w.id !== target.id && normalize(direction === 'pl-en' ? w.polish : w.english) !== prompt)
+    .map(w => ({ text: answerOf(w, direction).trim(), points: score(target, w, direction) }))
+    .sort((a, b) => b.points - a.points)
+    .filter(c => {
+      const key = normalize(c.text);
+      if (!key || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .slice(0, count)
+    .map(c => c.text);
+};
+
+/**
+ * One question per word. Words with too few possible distractors still get a question with fewer options.
+ */
+export const buildQuiz = (words: Word[], pool: Word[], pickDirection: (word: Word) => StudyDirection): QuizQuestion[] =>
+  words.map(word => {
+    const direction = pickDirection(word);
+    const answer = answerOf(word, direction).trim();
+    return {
+      wordId: word.id,
+      direction,
+      prompt: direction === 'pl-en' ? word.polish : word.english,
+      options: shuffle([answer, ...pickDistractors(word, pool, direction)]),
+      answer,
+    };
+  });
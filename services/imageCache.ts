@@ -0,0 +1,212 @@
+import { storageService } from './storage';
+
+// --- OFFLINE IMAGE CACHE ---
+// The picture itself (not just its URL) is kept as a Blob in its own IndexedDB database, keyed by
+// word + visual style, so cards show their image offline and Pollinations isn't asked twice.
+// Entries are evicted least-recently-used first once the size budget from settings is exceeded.
+// Without IndexedDB the cache is simply off and the source URLs are shown directly.
+
+const DB_NAME = 'ai_vocab_images';
+const DB_VERSION = 1;
+const BLOBS = 'blobs';     // key -> Blob
+const ENTRIES = 'entries'; // key -> CacheEntry, small enough to load all at once
+
+interface CacheEntry {
+  key: string;
+  size: number;
+  lastUsed: number;
+}
+
+export interface ImageCacheUsage {
+  count: number;
+  bytes: number;
+  budgetBytes: number;
+}
+
+const MB = 1024 * 1024;
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+let entries: Map<string, CacheEntry> | null = null;
+// Object URLs handed out so far; revoked when their blob leaves the cache
+const objectUrls = new Map<string, string>();
+
+const request = <T>(req: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const openDatabase = (): Promise<IDBDatabase | null> => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase | null>((resolve) => {
+      if (typeof indexedDB === 'undefined') return resolve(null);
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        if (!db.objectStoreNames.contains(BLOBS)) db.createObjectStore(BLOBS);
+        if (!db.objectStoreNames.contains(ENTRIES)) db.createObjectStore(ENTRIES, { keyPath: 'key' });
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => { console.warn("Image cache unavailable", req.error); resolve(null); };
+      req.onblocked = () => resolve(null);
+    });
+  }
+  return dbPromise;
+};
+
+const loadEntries = async (db: IDBDatabase): Promise<Map<string, CacheEntry>> => {
+  if (!entries) {
+    const all = await request<CacheEntry[]>(db.transaction(ENTRIES).objectStore(ENTRIES).getAll());
+    entries = new Map(all.map(e => [e.key, e]));
+  }
+  return entries;
+};
+
+const write = (db: IDBDatabase, fn: (blobs: IDBObjectStore, entryStore: IDBObjectStore) => void): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const tx = db.transaction([BLOBS, ENTRIES], 'readwrite');
+    fn(tx.objectStore(BLOBS), tx.objectStore(ENTRIES));
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+const revoke = (key: string) => {
+  const url = objectUrls.get(key);
+  if (url) URL.revokeObjectURL(url);
+  objectUrls.delete(key);
+};
+
+const toObjectUrl = (key: string, blob: Blob): string => {
+  revoke(key);
+  const url = URL.createObjectURL(blob);
+  objectUrls.set(key, url);
+  return url;
+};
+
+const budgetBytes = () => storageService.getSettings().imageCacheBudgetMb * MB;
+
+/**
+ * Removes least recently used entries until the cache fits the budget.
+ */
+const evict = async (db: IDBDatabase, keep?: string) => {
+  const index = await loadEntries(db);
+  let total = Array.from(index.values()).reduce((sum, e) => sum + e.size, 0);
+  const budget = budgetBytes();
+  if (total <= budget) return;
+
+  const victims: string[] = [];
+  const byAge = Array.from(index.values()).sort((a, b) => a.lastUsed - b.lastUsed);
+  for (const entry of byAge) {
+    if (total <= budget) break;
+    if (entry.key === keep) continue;
+    victims.push(entry.key);
+    total -= entry.size;
+  }
+
+  victims.forEach(key => { index.delete(key); revoke(key); });
+  await write(db, (blobs, entryStore) => victims.forEach(key => { blobs.delete(key); entryStore.delete(key); }));
+};
+
+export const imageCache = {
+  keyFor: (word: string, style: string) => `${word.toLowerCase().trim()}|${style}`,
+
+  /**
+   * Object URL of the cached picture, or undefined on a miss. Marks the entry as recently used.
+   */
+  get: async (key: string): Promise<string | undefined> => {
+    try {
+      const db = await openDatabase();
+      if (!db) return undefined;
+      const index = await loadEntries(db);
+      const entry = index.get(key);
+      if (!entry) return undefined;
+
+      entry.lastUsed = Date.now();
+      write(db, (_, entryStore) => entryStore.put(entry)).catch(() => {});
+
+      const existing = objectUrls.get(key);
+      if (existing) return existing;
+      const blob = await request<Blob | undefined>(db.transaction(BLOBS).objectStore(BLOBS).get(key));
+      if (!blob) { index.delete(key); return undefined; }
+      return toObjectUrl(key, blob);
+    } catch (e) {
+      console.warn("Image cache read error", e);
+      return undefined;
+    }
+  },
+
+  /**
+   * Downloads `sourceUrl` (http or data URL) into the cache and returns an object URL for it;
+   * `downloaded` is stored instead when the picture was already fetched.
+   * If the download fails (offline, CORS) the source URL is returned unchanged.
+   */
+  store: async (key: string, sourceUrl: string, downloaded?: Blob): Promise<string> => {
+    try {
+      const db = await openDatabase();
+      if (!db) return sourceUrl;
+
+      let blob = downloaded;
+      if (!blob) {
+        const response = await fetch(sourceUrl);
+        if (!response.ok) throw new Error(`Image download failed: ${response.status}`);
+        blob = await response.blob();
+      }
+      if (!blob.type.startsWith('image/')) throw new Error(`Not an image: ${blob.type}`);
+      // A single picture larger than the whole budget isn't worth keeping
+      if (blob.size > budgetBytes()) return sourceUrl;
+
+      const index = await loadEntries(db);
+      const entry: CacheEntry = { key, size: blob.size, lastUsed: Date.now() };
+      await write(db, (blobs, entryStore) => { blobs.put(blob, key); entryStore.put(entry); });
+      index.set(key, entry);
+      await evict(db, key);
+      return toObjectUrl(key, blob);
+    } catch (e) {
+      console.warn("Image cache write error", e);
+      return sourceUrl;
+    }
+  },
+
+  /**
+   * Cached image if there is one, otherwise downloads `sourceUrl` into the cache.
+   */
+  resolve: async (key: string, sourceUrl: string): Promise<string> =>
+    (await imageCache.get(key)) || imageCache.store(key, sourceUrl),
+
+  /**
+   * The picture as a data URL, e.g. for exports. Undefined if it isn't cached.
+   */
+  getAsDataUrl: async (key: string): Promise<string | undefined> => {
+    const db = await openDatabase();
+    if (!db) return undefined;
+    const blob = await request<Blob | undefined>(db.transaction(BLOBS).objectStore(BLOBS).get(key));
+    if (!blob) return undefined;
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onloadend = () => resolve(reader.result as string);
+      reader.onerror = reject;
+      reader.readAsDataURL(blob);
+    });
+  },
+
+  getUsage: async (): Promise<ImageCacheUsage> => {
+    const db = await openDatabase();
+    const list = db ? Array.from((await loadEntries(db)).values()) : [];
+    return { count: list.length, bytes: list.reduce((sum, e) => sum + e.size, 0), budgetBytes: budgetBytes() };
+  },
+
+  // Call after the budget setting was lowered
+  enforceBudget: async () => {
+    const db = await openDatabase();
+    if (db) await evict(db);
+  },
+
+  clear: async () => {
+    const db = await openDatabase();
+    if (!db) return;
+    Array.from(objectUrls.keys()).forEach(revoke);
+    entries = new Map();
+    await write(db, (blobs, entryStore) => { blobs.clear(); entryStore.clear(); });
+  },
+};
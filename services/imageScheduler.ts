@@ -0,0 +1,131 @@
+import { ImageProviderId } from './images/types';
+import { storageService } from './storage';
+
+// --- IMAGE REQUEST SCHEDULER ---
+// Replaces the old global queue (one request every 2 s, no way to cancel). Every provider gets its own
+// queue with a concurrency and pacing limit; the card on screen jumps ahead of prefetches, and requests
+// for cards the user already swiped past are dropped before they reach the network.
+
+export type ImagePriority = 'visible' | 'prefetch';
+
+export interface ScheduleOptions {
+  priority?: ImagePriority;
+  signal?: AbortSignal;
+  // Jobs with the same tag (the word) can be promoted together
+  tag?: string;
+}
+
+interface Limit {
+  concurrency: number;
+  minIntervalMs: number; // Between the starts of two requests
+}
+
+interface Job {
+  priority: number;
+  tag?: string;
+  signal?: AbortSignal;
+  start: () => void;
+  cancel: () => void;
+}
+
+interface ProviderQueue {
+  jobs: Job[];
+  active: number;
+  lastStart: number;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+const PRIORITIES: Record<ImagePriority, number> = { visible: 0, prefetch: 1 };
+
+const getLimit = (provider: ImageProviderId): Limit => {
+  switch (provider) {
+    // Anonymous Pollinations allows about one image at a time; a private key lifts most of that
+    case 'pollinations': return storageService.getSettings().pollinationsApiKey
+      ? { concurrency: 3, minIntervalMs: 300 }
+      : { concurrency: 1, minIntervalMs: 1500 };
+    case 'gemini': return { concurrency: 2, minIntervalMs: 500 };
+    case 'custom': return { concurrency: 2, minIntervalMs: 500 };
+    case 'huggingface': return { concurrency: 1, minIntervalMs: 1000 };
+    case 'deepai': return { concurrency: 1, minIntervalMs: 1000 };
+  }
+};
+
+const queues = new Map<ImageProviderId, ProviderQueue>();
+
+const queueFor = (provider: ImageProviderId): ProviderQueue => {
+  let queue = queues.get(provider);
+  if (!queue) {
+    queue = { jobs: [], active: 0, lastStart: 0, timer: null };
+    queues.set(provider, queue);
+  }
+  return queue;
+};
+
+export const abortError = () => new DOMException('Image request cancelled', 'AbortError');
+
+export const isAbortError = (e: unknown) => e instanceof DOMException && e.name === 'AbortError';
+
+const pump = (provider: ImageProviderId) => {
+  const queue = queueFor(provider);
+  const limit = getLimit(provider);
+  if (queue.timer) return;
+
+  while (queue.jobs.length > 0 && queue.active < limit.concurrency) {
+    const wait = queue.lastStart + limit.minIntervalMs - Date.now();
+    if (wait > 0) {
+      queue.timer = setTimeout(() => { queue.timer = null; pump(provider); }, wait);
+      return;
+    }
+    // Highest priority first; the sort is stable, so equal priorities keep their order
+    queue.jobs.sort((a, b) => a.priority - b.priority);
+    const job = queue.jobs.shift()!;
+    queue.active++;
+    queue.lastStart = Date.now();
+    job.start();
+  }
+};
+
+export const imageScheduler = {
+  /**
+   * Runs `task` once the provider's limits allow it. Rejects with an AbortError if `signal`
+   * fires first; a running task receives the signal and should pass it to fetch.
+   */
+  run: <T>(provider: ImageProviderId, task: (signal?: AbortSignal) => Promise<T>, options: ScheduleOptions = {}): Promise<T> => {
+    const { signal, tag, priority = 'visible' } = options;
+    if (signal?.aborted) return Promise.reject(abortError());
+
+    return new Promise<T>((resolve, reject) => {
+      const queue = queueFor(provider);
+      const onAbort = () => job.cancel();
+
+      const job: Job = {
+        priority: PRIORITIES[priority],
+        tag,
+        signal,
+        start: () => {
+          signal?.removeEventListener('abort', onAbort);
+          task(signal).then(resolve, reject).finally(() => {
+            queue.active--;
+            pump(provider);
+          });
+        },
+        cancel: () => {
+          queue.jobs = queue.jobs.filter(j => j !== job);
+          reject(abortError());
+        },
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      queue.jobs.push(job);
+      pump(provider);
+    });
+  },
+
+  /**
+   * Changes the priority of queued jobs for `tag`: to the front when a prefetched card becomes visible,
+   * back behind it when the card is swiped away.
+   */
+  reprioritize: (tag: string, priority: ImagePriority) => {
+    queues.forEach(queue => queue.jobs.forEach(job => { if (job.tag === tag) job.priority = PRIORITIES[priority]; }));
+  },
+};
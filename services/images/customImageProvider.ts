@@ -0,0 +1,32 @@
+import { storageService } from "../storage";
+import { ImageProvider, httpError } from "./types";
+
+/**
+ * OpenAI-compatible /images/generations (DALL-E, subnp.com), configured together with the custom text API.
+ */
+export const customImageProvider: ImageProvider = {
+  id: 'custom',
+  label: 'Własne API (DALL-E)',
+  isConfigured: () => {
+    const s = storageService.getSettings();
+    return !!s.customApiKey && !!s.customApiBase;
+  },
+  generate: async ({ prompt }, signal) => {
+    const s = storageService.getSettings();
+    const baseUrl = s.customApiBase.endsWith('/') ? s.customApiBase.slice(0, -1) : s.customApiBase;
+    const imageModel = s.customModelName.toLowerCase().includes('dall-e') ? s.customModelName : 'dall-e-3';
+
+    const response = await fetch(`${baseUrl}/images/generations`, {
+      method: "POST",
+      headers: { "Authorization": `Bearer ${s.customApiKey}`, "Content-Type": "application/json" },
+      body: JSON.stringify({ prompt, model: imageModel, n: 1, size: "1024x1024" }),
+      signal,
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) throw httpError(response, data.error?.message || `Custom Image API Error ${response.status}`);
+
+    if (data.data?.[0]?.url) return { url: data.data[0].url };
+    if (data.data?.[0]?.b64_json) return { url: `data:image/png;base64,${data.data[0].b64_json}` };
+    throw new Error("No image in Custom Image API response");
+  },
+};
@@ -0,0 +1,23 @@
+import { storageService } from "../storage";
+import { ImageProvider, httpError } from "./types";
+
+/**
+ * DeepAI through our own /api/generate-image proxy (the API doesn't allow browser calls).
+ */
+export const deepAiProvider: ImageProvider = {
+  id: 'deepai',
+  label: 'DeepAI',
+  isConfigured: () => !!storageService.getSettings().deepAiApiKey,
+  generate: async ({ prompt }, signal) => {
+    const response = await fetch('/api/generate-image', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ prompt, apiKey: storageService.getSettings().deepAiApiKey, provider: 'deepai' }),
+      signal,
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) throw httpError(response, data.error || `DeepAI Error ${response.status}`);
+    if (!data.image) throw new Error("No image in DeepAI response");
+    return { url: data.image };
+  },
+};
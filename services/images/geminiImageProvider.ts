@@ -0,0 +1,20 @@
+import { GoogleGenAI } from "@google/genai";
+import { storageService } from "../storage";
+import { ImageProvider } from "./types";
+
+export const geminiImageProvider: ImageProvider = {
+  id: 'gemini',
+  label: 'Google Gemini Imagen',
+  isConfigured: () => !!process.env.API_KEY,
+  generate: async ({ prompt }, signal) => {
+    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    const modelName = storageService.getSettings().aiModelType === 'pro' ? 'gemini-3-pro-image-preview' : 'gemini-2.5-flash-image';
+    // ApiError from the SDK already carries the HTTP `status`
+    const response = await ai.models.generateContent({ model: modelName, contents: prompt, config: { abortSignal: signal } });
+    const parts = response.candidates?.[0]?.content?.parts || [];
+    for (const part of parts) {
+      if (part.inlineData) return { url: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}` };
+    }
+    throw new Error("No image data in Gemini response");
+  },
+};
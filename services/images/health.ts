@@ -0,0 +1,113 @@
+import { ImageProviderId } from './types';
+
+// --- IMAGE PROVIDER HEALTH ---
+// Remembers how each provider has been doing so the chain can skip the ones that are known to fail:
+// a bad key (401), no credits (402) or a rate limit (429) won't fix itself within the next few words.
+// Kept in memory only; after a reload every provider gets one fresh try.
+
+export interface ProviderHealth {
+  successes: number;
+  failures: number;
+  lastSuccess: number | null;
+  lastFailure: number | null;
+  lastError: string;
+  lastStatus: number | null;
+  skipUntil: number; // Timestamp, 0 = available
+}
+
+export interface FallbackRecord {
+  at: number;
+  word: string;
+  provider: ImageProviderId;
+  reason: string; // In Polish, shown in settings
+}
+
+// How long a provider is skipped after each status
+const COOLDOWNS: Record<number, number> = {
+  401: 60 * 60 * 1000,     // Bad key: until the user fixes it (or an hour passes)
+  402: 6 * 60 * 60 * 1000, // Out of credits
+  429: 10 * 60 * 1000,     // Rate limited, unless the server says otherwise (Retry-After)
+};
+
+const MAX_FALLBACKS = 30;
+
+const health = new Map<ImageProviderId, ProviderHealth>();
+let fallbacks: FallbackRecord[] = [];
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach(l => l());
+
+const entry = (id: ImageProviderId): ProviderHealth => {
+  let h = health.get(id);
+  if (!h) {
+    h = { successes: 0, failures: 0, lastSuccess: null, lastFailure: null, lastError: '', lastStatus: null, skipUntil: 0 };
+    health.set(id, h);
+  }
+  return h;
+};
+
+const STATUS_REASONS: Record<number, string> = {
+  401: 'nieprawidłowy klucz API (401)',
+  402: 'brak środków na koncie (402)',
+  429: 'przekroczony limit zapytań (429)',
+};
+
+export const imageHealth = {
+  get: (id: ImageProviderId): ProviderHealth => ({ ...entry(id) }),
+
+  // Why the provider is being skipped right now, or null when it may be tried
+  skipReason: (id: ImageProviderId): string | null => {
+    const h = entry(id);
+    if (h.skipUntil <= Date.now()) return null;
+    const until = new Date(h.skipUntil).toLocaleTimeString('pl-PL', { hour: '2-digit', minute: '2-digit' });
+    return `pominięty do ${until}: ${(h.lastStatus && STATUS_REASONS[h.lastStatus]) || h.lastError}`;
+  },
+
+  recordSuccess: (id: ImageProviderId) => {
+    const h = entry(id);
+    h.successes++;
+    h.lastSuccess = Date.now();
+    h.skipUntil = 0;
+    notify();
+  },
+
+  /**
+   * Stores a failure and returns the reason in Polish. 401/402/429 put the provider on cooldown.
+   */
+  recordFailure: (id: ImageProviderId, error: any): string => {
+    const h = entry(id);
+    const status = Number(error?.status) || null;
+    h.failures++;
+    h.lastFailure = Date.now();
+    h.lastStatus = status;
+    h.lastError = error?.message || String(error);
+
+    const cooldown = status ? COOLDOWNS[status] : undefined;
+    if (cooldown) {
+      const retryAfter = Number(error?.retryAfter) * 1000;
+      h.skipUntil = Date.now() + (status === 429 && retryAfter > 0 ? retryAfter : cooldown);
+    }
+    notify();
+    return (status && STATUS_REASONS[status]) || (status ? `błąd ${status}: ${h.lastError}` : h.lastError);
+  },
+
+  recordFallback: (record: FallbackRecord) => {
+    fallbacks = [record, ...fallbacks].slice(0, MAX_FALLBACKS);
+    notify();
+  },
+
+  // Newest first
+  getFallbacks: (): FallbackRecord[] => fallbacks,
+
+  // Lets every provider be tried again, e.g. after the user fixed a key
+  reset: (id?: ImageProviderId) => {
+    if (id) health.delete(id);
+    else { health.clear(); fallbacks = []; }
+    notify();
+  },
+
+  subscribe: (listener: () => void) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+  },
+};
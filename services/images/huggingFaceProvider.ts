@@ -0,0 +1,32 @@
+import { storageService } from "../storage";
+import { ImageProvider, blobToDataUrl, httpError } from "./types";
+
+const MODEL_URL = "https://router.huggingface.co/hf-inference/models/stabilityai/stable-diffusion-xl-base-1.0";
+
+const getApiKey = (): string => {
+  const apiKey = storageService.getSettings().huggingFaceApiKey?.trim() || process.env.HUGGING_FACE_API_KEY || '';
+  return apiKey.startsWith('Bearer ') ? apiKey.replace('Bearer ', '').trim() : apiKey;
+};
+
+/**
+ * Direct Inference API (paid / limited free tier). Returns the picture as a data URL.
+ */
+export const huggingFaceProvider: ImageProvider = {
+  id: 'huggingface',
+  label: 'Hugging Face (SDXL)',
+  isConfigured: () => !!getApiKey(),
+  generate: async ({ prompt }, signal) => {
+    const response = await fetch(MODEL_URL, {
+      method: "POST",
+      headers: { "Authorization": `Bearer ${getApiKey()}`, "Content-Type": "application/json", "x-use-cache": "false" },
+      body: JSON.stringify({ inputs: prompt }),
+      signal,
+    });
+    if (!response.ok) {
+      const text = await response.text().catch(() => '');
+      throw httpError(response, `Hugging Face Error ${response.status}${text ? `: ${text.slice(0, 200)}` : ''}`);
+    }
+    const blob = await response.blob();
+    return { url: await blobToDataUrl(blob), blob };
+  },
+};
@@ -0,0 +1,26 @@
+import { storageService } from "../storage";
+import { ImageProvider, ImageRequest, httpError } from "./types";
+
+export const buildPollinationsUrl = ({ prompt, seed }: ImageRequest): string => {
+  const { pollinationsApiKey } = storageService.getSettings();
+  let url = `https://image.pollinations.ai/prompt/${encodeURIComponent(prompt)}?width=800&height=600&nologo=true&seed=${seed}&model=flux`;
+  if (pollinationsApiKey) url += `&privateKey=${encodeURIComponent(pollinationsApiKey)}`;
+  return url;
+};
+
+/**
+ * Pollinations renders the picture when its URL is first requested. Requesting it here lets the
+ * scheduler pace the rendering and the health tracking see 429s; the downloaded picture goes
+ * straight into the image cache, so it is fetched only once.
+ */
+export const pollinationsProvider: ImageProvider = {
+  id: 'pollinations',
+  label: 'Pollinations AI',
+  isConfigured: () => true,
+  generate: async (request, signal) => {
+    const url = buildPollinationsUrl(request);
+    const response = await fetch(url, { signal });
+    if (!response.ok) throw httpError(response, `Pollinations Error ${response.status}`);
+    return { url, blob: await response.blob() };
+  },
+};
@@ -0,0 +1,59 @@
+import { Settings } from "../../types";
+import { ImageProvider, ImageProviderId, ImageRequest, ImageResult } from "./types";
+import { imageHealth } from "./health";
+import { geminiImageProvider } from "./geminiImageProvider";
+import { customImageProvider } from "./customImageProvider";
+import { deepAiProvider } from "./deepAiProvider";
+import { huggingFaceProvider } from "./huggingFaceProvider";
+import { pollinationsProvider, buildPollinationsUrl } from "./pollinationsProvider";
+import { imageScheduler, isAbortError, ScheduleOptions } from "../imageScheduler";
+
+// --- IMAGE PROVIDER REGISTRY ---
+// Adding a provider: implement ImageProvider in its own file, list it here and in
+// SETTINGS_OPTIONS.imageProviderChain (services/schema.ts).
+
+export const IMAGE_PROVIDERS: ImageProvider[] = [geminiImageProvider, customImageProvider, huggingFaceProvider, deepAiProvider, pollinationsProvider];
+
+const registry = new Map<ImageProviderId, ImageProvider>(IMAGE_PROVIDERS.map(p => [p.id, p]));
+
+/**
+ * Providers to try, in order. 'auto' follows the user's chain, a single provider keeps its
+ * old behaviour of falling back to Pollinations. Pollinations always ends the chain.
+ */
+export const resolveImageChain = (settings: Settings): ImageProviderId[] => {
+  const strategy = settings.imageProvider === 'hf_space' ? 'pollinations' : settings.imageProvider;
+  const chain = strategy === 'auto' ? settings.imageProviderChain : [strategy];
+  return [...chain.filter(id => id !== 'pollinations' && registry.has(id)), 'pollinations'];
+};
+
+/**
+ * Tries each provider of the chain until one returns an image. Providers without a key or on
+ * cooldown are skipped; every step down the chain is recorded with its reason. Each request goes
+ * through the provider's queue in imageScheduler; an aborted request ends the chain.
+ */
+export const generateWithChain = async (chain: ImageProviderId[], request: ImageRequest, word: string, options: ScheduleOptions = {}): Promise<ImageResult> => {
+  const fallBack = (provider: ImageProviderId, reason: string) => {
+    console.warn(`Image provider ${provider} skipped for "${word}": ${reason}`);
+    imageHealth.recordFallback({ at: Date.now(), word, provider, reason });
+  };
+
+  for (const id of chain) {
+    const provider = registry.get(id)!;
+
+    if (!provider.isConfigured()) { fallBack(id, 'brak klucza API'); continue; }
+    const skipReason = imageHealth.skipReason(id);
+    if (skipReason) { fallBack(id, skipReason); continue; }
+
+    try {
+      // `options` is read per step, so a promoted prefetch stays in front for the next provider too
+      const result = await imageScheduler.run(id, signal => provider.generate(request, signal), { ...options, tag: word });
+      imageHealth.recordSuccess(id);
+      return result;
+    } catch (e) {
+      if (isAbortError(e) || options.signal?.aborted) throw e;
+      fallBack(id, imageHealth.recordFailure(id, e));
+    }
+  }
+  // Every provider failed (or is skipped): hand the Pollinations URL to the browser, it may still load later
+  return { url: buildPollinationsUrl(request) };
+};
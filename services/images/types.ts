@@ -0,0 +1,47 @@
+import { Settings } from '../../types';
+
+// 'auto' and the retired 'hf_space' are strategies, not providers
+export type ImageProviderId = Exclude<Settings['imageProvider'], 'auto' | 'hf_space'>;
+
+export interface ImageRequest {
+  prompt: string; // Word, context and visual style, ready to send
+  seed: number;   // Deterministic per prompt unless the user asked for a new picture
+}
+
+/**
+ * A generated picture. `blob` is the picture itself when the provider already downloaded it,
+ * so the image cache doesn't have to fetch `url` a second time.
+ */
+export interface ImageResult {
+  url: string; // http or data URL
+  blob?: Blob;
+}
+
+/**
+ * One image generator. Registered in ./registry.ts and tried in the order of the provider chain.
+ * `generate` throws on failure; errors carrying an HTTP `status` feed the health tracking (./health.ts).
+ */
+export interface ImageProvider {
+  id: ImageProviderId;
+  label: string;
+  // False when the provider can't run at all (e.g. no key), it is then skipped without counting as a failure
+  isConfigured(): boolean;
+  // `signal` aborts the request when the card is no longer needed (see services/imageScheduler.ts)
+  generate(request: ImageRequest, signal?: AbortSignal): Promise<ImageResult>;
+}
+
+/**
+ * An Error with the HTTP status of the failed request (and Retry-After in seconds, if the server sent it).
+ */
+export const httpError = (response: Response, message: string): Error & { status: number; retryAfter?: number } =>
+  Object.assign(new Error(message), {
+    status: response.status,
+    retryAfter: Number(response.headers.get('Retry-After')) || undefined,
+  });
+
+export const blobToDataUrl = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onloadend = () => resolve(reader.result as string);
+  reader.onerror = reject;
+  reader.readAsDataURL(blob);
+});
@@ -0,0 +1,107 @@
+import { Word, ReviewLog } from '../types';
+
+// --- BACKUP MERGE ---
+// Combines a backup with the local word base instead of replacing it, so progress made
+// on two devices survives. Words are matched by id, or by their english/polish pair
+// when the same word was added separately on each device.
+
+export interface MergeChange {
+  local: Word;
+  incoming: Word;
+}
+
+export interface MergeConflict extends MergeChange {
+  reason: string;
+}
+
+export interface MergePreview {
+  added: Word[];
+  updated: MergeChange[];
+  conflicting: MergeConflict[];
+  unchanged: number;
+  result: Word[];
+  // Incoming word id -> id the word has after merging (differs when matched by pair or re-numbered)
+  idMap: Map<string, string>;
+}
+
+const normalize = (text: string) => text.trim().toLowerCase().replace(/\s+/g, ' ');
+
+export const pairKey = (word: Pick<Word, 'english' | 'polish'>) => `${normalize(word.english)}|${normalize(word.polish)}`;
+
+// Fields the user can edit; a difference here means someone changed the word itself, not just studied it
+const CONTENT_FIELDS: (keyof Word)[] = [
+  'polish', 'english', 'category', 'level', 'exampleSentence', 'exampleTranslation',
+  'englishAlternatives', 'polishAlternatives', 'partOfSpeech', 'ipa', 'sense', 'notes', 'examples',
+];
+
+// Lists are compared by content
+const contentDiffers = (a: Word, b: Word) => CONTENT_FIELDS.some(f => JSON.stringify(a[f] ?? '') !== JSON.stringify(b[f] ?? ''));
+
+const progressDiffers = (a: Word, b: Word) =>
+  a.lastReview !== b.lastReview || a.nextReview !== b.nextReview || a.attempts !== b.attempts || a.status !== b.status ||
+  a.reverse?.lastReview !== b.reverse?.lastReview;
+
+// Latest review in either direction
+const lastStudied = (w: Word) => Math.max(w.lastReview ?? 0, w.reverse?.lastReview ?? 0);
+
+export const mergeService = {
+  /**
+   * Works out what merging `incoming` into `local` would do, without changing anything.
+   * The record studied more recently (in either direction) wins; differing edits that would be dropped are reported as conflicts.
+   */
+  preview: (local: Word[], incoming: Word[]): MergePreview => {
+    const byId = new Map(local.map(w => [w.id, w]));
+    const byPair = new Map(local.map(w => [pairKey(w), w]));
+    const replacements = new Map<string, Word>();
+    const matchedLocalIds = new Set<string>();
+
+    const preview: MergePreview = { added: [], updated: [], conflicting: [], unchanged: 0, result: [], idMap: new Map() };
+
+    incoming.forEach(inc => {
+      const match = byId.get(inc.id) || byPair.get(pairKey(inc));
+      // Two incoming records can't both claim the same local word
+      if (!match || matchedLocalIds.has(match.id)) {
+        if (!byId.has(inc.id)) {
+          preview.added.push(inc);
+        } else {
+          // Same id as a different local word: keep both, with a fresh id for the incoming one
+          const id = Math.random().toString(36).substr(2, 9);
+          preview.added.push({ ...inc, id });
+          preview.idMap.set(inc.id, id);
+        }
+        return;
+      }
+      matchedLocalIds.add(match.id);
+      preview.idMap.set(inc.id, match.id);
+
+      const localTime = lastStudied(match);
+      const incomingTime = lastStudied(inc);
+      const change = { local: match, incoming: { ...inc, id: match.id } };
+
+      if (incomingTime > localTime) {
+        preview.updated.push(change);
+        replacements.set(match.id, change.incoming);
+      } else if (incomingTime === localTime && (contentDiffers(match, inc) || progressDiffers(match, inc))) {
+        preview.conflicting.push({ ...change, reason: 'Obie wersje powtarzane w tym samym czasie, ale się różnią – zostaje lokalna' });
+      } else if (contentDiffers(match, inc)) {
+        preview.conflicting.push({ ...change, reason: 'Lokalna wersja jest nowsza, ale kopia ma inną treść – zostaje lokalna' });
+      } else {
+        preview.unchanged++;
+      }
+    });
+
+    preview.result = [...local.map(w => replacements.get(w.id) || w), ...preview.added];
+    return preview;
+  },
+
+  /**
+   * Union of two review histories; ids are unique per answer, so duplicates are the same answer.
+   */
+  mergeReviewLogs: (local: ReviewLog[], incoming: ReviewLog[], idMap: Map<string, string>): ReviewLog[] => {
+    const seen = new Set(local.map(l => l.id));
+    const extra = incoming
+      .filter(l => !seen.has(l.id))
+      .map(l => ({ ...l, wordId: idMap.get(l.wordId) || l.wordId }));
+    return [...local, ...extra].sort((a, b) => a.timestamp - b.timestamp);
+  },
+};
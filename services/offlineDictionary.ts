@@ -0,0 +1,119 @@
+import { Word, WordStatus, LanguageLevel } from '../types';
+
+// --- OFFLINE DICTIONARY ---
+// Backs the 'free' text provider: a bundled Polish-English word list with CEFR levels, categories
+// (the same ones the generator offers) and example sentences. The JSON is a separate chunk,
+// loaded the first time it's needed.
+
+export interface DictionaryEntry {
+  english: string;
+  polish: string;
+  category: string;
+  level: LanguageLevel;
+  example: string;
+  alt?: string[]; // Other accepted English translations
+  polishAlt?: string[]; // Other Polish words with this meaning
+}
+
+const LEVELS = Object.values(LanguageLevel);
+
+let entriesPromise: Promise<DictionaryEntry[]> | null = null;
+
+const loadEntries = (): Promise<DictionaryEntry[]> => {
+  if (!entriesPromise) {
+    entriesPromise = import('../data/pl-en-dictionary.json')
+      .then(m => m.default as DictionaryEntry[])
+      .catch(e => { entriesPromise = null; throw e; });
+  }
+  return entriesPromise;
+};
+
+const normalizePolish = (text: string) => text.trim().toLowerCase().replace(/\s+/g, ' ');
+
+// Answers are compared without case, punctuation, articles or the infinitive "to"
+const normalizeEnglish = (text: string) =>
+  text.trim().toLowerCase().replace(/[.,!?"]/g, '').replace(/\s+/g, ' ').replace(/^(to|a|an|the) /, '');
+
+const polishForms = (e: DictionaryEntry) => [e.polish, ...(e.polishAlt || [])].map(normalizePolish);
+const englishForms = (e: DictionaryEntry) => [e.english, ...(e.alt || [])].map(normalizeEnglish);
+
+const shuffle = <T>(items: T[]): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+export const offlineDictionary = {
+  /**
+   * Picks unseen words from the category, closest level first (the list is small, so neighbouring levels fill the gap).
+   */
+  generateWords: async (category: string, level: LanguageLevel, count: number, existingWords: string[]): Promise<Word[]> => {
+    const entries = await loadEntries();
+    const known = new Set(existingWords.map(normalizeEnglish));
+    const target = LEVELS.indexOf(level);
+
+    const candidates = shuffle(entries.filter(e =>
+      (category === 'Losowe' || e.category.toLowerCase() === category.toLowerCase()) && !known.has(normalizeEnglish(e.english))
+    )).sort((a, b) => Math.abs(LEVELS.indexOf(a.level) - target) - Math.abs(LEVELS.indexOf(b.level) - target));
+
+    if (candidates.length === 0) {
+      throw new Error('Słownik offline nie ma już nowych słów w tej kategorii. Wybierz inną kategorię lub dostawcę AI.');
+    }
+
+    return candidates.slice(0, count).map(e => ({
+      id: Math.random().toString(36).substr(2, 9),
+      english: e.english,
+      polish: e.polish,
+      category: category === 'Losowe' ? e.category : category,
+      level: e.level,
+      exampleSentence: e.example,
+      status: WordStatus.New,
+      nextReview: Date.now(),
+      lastReview: null,
+      attempts: 0,
+      correct: 0,
+      aiGenerated: true,
+      createdAt: Date.now(),
+    }));
+  },
+
+  translateWord: async (word: string, from: 'pl' | 'en'): Promise<{ translation: string; exampleSentence: string }> => {
+    const entries = await loadEntries();
+    const entry = from === 'pl'
+      ? entries.find(e => polishForms(e).includes(normalizePolish(word)))
+      : entries.find(e => englishForms(e).includes(normalizeEnglish(word)));
+
+    if (!entry) throw new Error(`Brak słowa "${word}" w słowniku offline. Wpisz oba tłumaczenia ręcznie.`);
+    return { translation: from === 'pl' ? entry.english : entry.polish, exampleSentence: entry.example };
+  },
+
+  generateExampleSentence: async (englishWord: string, polishContext?: string): Promise<string> => {
+    const entries = await loadEntries();
+    const matches = entries.filter(e => englishForms(e).includes(normalizeEnglish(englishWord)));
+    // Prefer the sense that matches the Polish translation
+    const entry = matches.find(e => polishContext && polishForms(e).includes(normalizePolish(polishContext))) || matches[0];
+    return entry?.example || '';
+  },
+
+  /**
+   * Accepts the dictionary translation of the Polish word and its synonyms.
+   */
+  checkTranslation: async (polishWord: string, userEnglishInput: string): Promise<{ isCorrect: boolean; feedback: string }> => {
+    const entries = await loadEntries();
+    const senses = entries.filter(e => polishForms(e).includes(normalizePolish(polishWord)));
+    if (senses.length === 0) {
+      return { isCorrect: false, feedback: 'Błędnie (słowa nie ma w słowniku offline)' };
+    }
+
+    const answer = normalizeEnglish(userEnglishInput);
+    const match = senses.find(e => englishForms(e).includes(answer));
+    if (!match) return { isCorrect: false, feedback: 'Spróbuj jeszcze raz' };
+
+    return normalizeEnglish(match.english) === answer
+      ? { isCorrect: true, feedback: 'Dobrze!' }
+      : { isCorrect: true, feedback: `Dobrze! Synonim słowa "${match.english}".` };
+  },
+};
@@ -0,0 +1,74 @@
+import { PendingAiTask } from '../types';
+import { storageService } from './storage';
+
+// --- OFFLINE AI QUEUE ---
+// Study sessions work without a connection, but checking a typed answer or generating words needs the AI.
+// Those steps are stored here (persisted, so a reload doesn't lose them) and run once the browser is
+// back online. What a finished task does to the app state is decided by the handler App passes to `flush`.
+
+type NewTask = PendingAiTask extends infer T ? T extends PendingAiTask ? Omit<T, 'id' | 'createdAt' | 'attempts'> : never : never;
+
+// A task that keeps failing while online is broken, not waiting for the network
+const MAX_ATTEMPTS = 5;
+
+// These providers don't need the internet (the local one talks to a server on this machine)
+const OFFLINE_PROVIDERS = ['free', 'local'];
+
+const generateId = () => Math.random().toString(36).substr(2, 9);
+
+const listeners = new Set<() => void>();
+const notify = () => listeners.forEach(l => l());
+
+let isFlushing = false;
+
+export const offlineQueue = {
+  isOnline: () => typeof navigator === 'undefined' || navigator.onLine,
+
+  // False when an AI step has to be queued instead of run now
+  canUseAi: () => offlineQueue.isOnline() || OFFLINE_PROVIDERS.includes(storageService.getSettings().aiProvider),
+
+  getTasks: (): PendingAiTask[] => storageService.getPendingTasks(),
+
+  add: (task: NewTask) => {
+    const pending = { ...task, id: generateId(), createdAt: Date.now() } as PendingAiTask;
+    storageService.savePendingTasks([...storageService.getPendingTasks(), pending]);
+    notify();
+  },
+
+  /**
+   * Runs the queued tasks in order. A task whose handler throws stays queued and stops the run
+   * (most likely the connection dropped again); the rest is retried on the next flush.
+   */
+  flush: async (run: (task: PendingAiTask) => Promise<void>) => {
+    if (isFlushing || !offlineQueue.isOnline()) return;
+    isFlushing = true;
+    try {
+      for (const task of storageService.getPendingTasks()) {
+        try {
+          await run(task);
+        } catch (e) {
+          const attempts = (task.attempts || 0) + 1;
+          const rest = storageService.getPendingTasks().filter(t => t.id !== task.id);
+          if (attempts >= MAX_ATTEMPTS) {
+            console.error("Queued AI task dropped after repeated failures", task, e);
+            storageService.savePendingTasks(rest);
+            notify();
+            continue;
+          }
+          console.warn("Queued AI task failed, will retry later", task.type, e);
+          storageService.savePendingTasks(storageService.getPendingTasks().map(t => t.id === task.id ? { ...t, attempts } : t));
+          break;
+        }
+        storageService.savePendingTasks(storageService.getPendingTasks().filter(t => t.id !== task.id));
+        notify();
+      }
+    } finally {
+      isFlushing = false;
+    }
+  },
+
+  subscribe: (listener: () => void) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+  },
+};
@@ -0,0 +1,28 @@
+import { storageService } from "../storage";
+import { createPromptProvider } from "./promptProvider";
+
+/**
+ * Any OpenAI-compatible Chat API (Custom, Kie-API, subnp.com)
+ */
+export const customProvider = createPromptProvider('custom', async ({ prompt }) => {
+  const s = storageService.getSettings();
+  if (!s.customApiKey || !s.customApiBase) throw new Error("Missing Custom API Config");
+
+  const baseUrl = s.customApiBase.endsWith('/') ? s.customApiBase.slice(0, -1) : s.customApiBase;
+
+  const response = await fetch(`${baseUrl}/chat/completions`, {
+    method: "POST",
+    headers: {
+      "Authorization": `Bearer ${s.customApiKey}`,
+      "Content-Type": "application/json"
+    },
+    body: JSON.stringify({
+      model: s.customModelName || "gpt-4o-mini",
+      messages: [{ role: "user", content: prompt }],
+      response_format: { type: "json_object" }
+    })
+  });
+  const data = await response.json();
+  if (data.error) throw new Error(data.error.message || "Custom API Error");
+  return data.choices[0].message.content;
+});
@@ -0,0 +1,27 @@
+import { GoogleGenAI } from "@google/genai";
+import { storageService } from "../storage";
+import { createPromptProvider } from "./promptProvider";
+
+export const geminiProvider = createPromptProvider('gemini', async ({ prompt, schema }) => {
+  const apiKey = process.env.API_KEY;
+  if (!apiKey) {
+    throw new Error("Brak klucza API (API_KEY). Upewnij się, że serwer został uruchomiony z poprawnymi zmiennymi środowiskowymi.");
+  }
+
+  const settings = storageService.getSettings();
+  const ai = new GoogleGenAI({ apiKey });
+  // Use the model selected in settings
+  const modelName = settings.aiModelType === 'pro' ? 'gemini-3-pro-preview' : 'gemini-3-flash-preview';
+
+  try {
+    const response = await ai.models.generateContent({
+      model: modelName,
+      contents: prompt,
+      config: { responseMimeType: "application/json", responseJsonSchema: schema },
+    });
+    return response.text || '{}';
+  } catch (error: any) {
+    console.error("Gemini Error Full:", error);
+    throw new Error(`Gemini Error: ${error.message || error.statusText || 'Unknown'}`);
+  }
+});
@@ -0,0 +1,69 @@
+import { Settings } from "../../types";
+import { storageService } from "../storage";
+import { createPromptProvider } from "./promptProvider";
+
+// --- LOCAL MODELS ---
+// Ollama (/api/chat) and the llama.cpp server (OpenAI-style /v1 endpoints) on your own machine.
+// No key; the answer is constrained to the prompt's JSON schema by the server itself.
+// The browser needs CORS access, e.g. OLLAMA_ORIGINS=* for Ollama.
+
+type ServerType = Settings['localServerType'];
+
+const trimBase = (base: string) => base.trim().replace(/\/+$/, '');
+
+const requestJson = async (url: string, init?: RequestInit) => {
+  let response: Response;
+  try {
+    response = await fetch(url, init);
+  } catch {
+    throw new Error(`Brak połączenia z ${url}. Czy serwer działa i zezwala na CORS?`);
+  }
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok || data.error) {
+    const message = typeof data.error === 'string' ? data.error : data.error?.message;
+    throw new Error(message || `Local model error ${response.status}`);
+  }
+  return data;
+};
+
+/**
+ * Names of the models the server can run, for the picker in settings.
+ */
+export const listLocalModels = async (serverType: ServerType, apiBase: string): Promise<string[]> => {
+  const base = trimBase(apiBase);
+  if (serverType === 'ollama') {
+    const data = await requestJson(`${base}/api/tags`);
+    return (data.models || []).map((m: any) => String(m.name));
+  }
+  const data = await requestJson(`${base}/v1/models`);
+  return (data.data || []).map((m: any) => String(m.id));
+};
+
+export const localProvider = createPromptProvider('local', async ({ prompt, schema }) => {
+  const s = storageService.getSettings();
+  const base = trimBase(s.localApiBase);
+  if (!base) throw new Error("Brak adresu lokalnego serwera");
+  const messages = [{ role: "user", content: prompt }];
+
+  if (s.localServerType === 'ollama') {
+    if (!s.localModelName) throw new Error("Wybierz model Ollama w ustawieniach");
+    const data = await requestJson(`${base}/api/chat`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ model: s.localModelName, messages, stream: false, format: schema }),
+    });
+    return data.message?.content || '{}';
+  }
+
+  // llama.cpp serves a single model, so the name is optional there
+  const data = await requestJson(`${base}/v1/chat/completions`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      model: s.localModelName || undefined,
+      messages,
+      response_format: { type: "json_schema", json_schema: { name: "answer", schema } },
+    }),
+  });
+  return data.choices?.[0]?.message?.content || '{}';
+});
@@ -0,0 +1,25 @@
+import { offlineDictionary } from "../offlineDictionary";
+import { TextProvider } from "./types";
+
+// 'free': the bundled dictionary, works without a network connection or API key
+export const offlineProvider: TextProvider = {
+  id: 'free',
+  generateWords: offlineDictionary.generateWords,
+  translateWord: offlineDictionary.translateWord,
+  generateExampleSentence: offlineDictionary.generateExampleSentence,
+  checkTranslation: offlineDictionary.checkTranslation,
+
+  // Nothing to batch: every word is looked up on its own
+  completeWords: (items) => Promise.all(items.map(async item => {
+    if (item.polish && item.english) {
+      return { ...item, exampleSentence: await offlineDictionary.generateExampleSentence(item.english, item.polish) };
+    }
+    const from = item.polish ? 'pl' : 'en';
+    const result = await offlineDictionary.translateWord(item.polish || item.english, from).catch(() => null);
+    return {
+      polish: item.polish || result?.translation || '',
+      english: item.english || result?.translation || '',
+      exampleSentence: result?.exampleSentence || '',
+    };
+  })),
+};
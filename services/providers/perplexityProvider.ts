@@ -0,0 +1,27 @@
+import { storageService } from "../storage";
+import { createPromptProvider } from "./promptProvider";
+
+export const perplexityProvider = createPromptProvider('perplexity', async ({ prompt, schema }) => {
+  const apiKey = storageService.getSettings().perplexityApiKey;
+  if (!apiKey) throw new Error("Missing Perplexity API Key");
+
+  const response = await fetch("https://api.perplexity.ai/chat/completions", {
+    method: "POST",
+    headers: {
+      "Authorization": `Bearer ${apiKey}`,
+      "Content-Type": "application/json"
+    },
+    body: JSON.stringify({
+      model: "sonar",
+      messages: [
+        { role: "system", content: "You are a specialized linguistic assistant that only outputs JSON." },
+        { role: "user", content: prompt }
+      ],
+      response_format: { type: "json_schema", json_schema: { name: "answer", schema } }
+    })
+  });
+
+  const data = await response.json();
+  if (!response.ok || data.error) throw new Error(data.error?.message || `Perplexity Error ${response.status}`);
+  return data.choices[0].message.content;
+});
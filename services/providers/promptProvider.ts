@@ -0,0 +1,103 @@
+import { Word, WordStatus } from '../../types';
+import { prompts, PromptTemplate } from './prompts';
+import { parseResponse } from './responseParser';
+import { TextProvider, TextProviderId } from './types';
+import { detailsFromAi } from '../wordDetails';
+
+// Sends one prompt and returns the raw text of the model's answer
+export type CompleteFn = (template: PromptTemplate) => Promise<string>;
+
+const generateId = () => Math.random().toString(36).substr(2, 9);
+
+// Enough of a broken answer for the model to see what it did
+const MAX_ECHO_LENGTH = 1500;
+
+/**
+ * Sends the prompt and returns the validated answer. An unusable answer is sent back once
+ * together with the validation error before giving up.
+ */
+const ask = async (complete: CompleteFn, template: PromptTemplate): Promise<any> => {
+  const parse = (content: string) => {
+    const { value, issues } = parseResponse(content, template.schema);
+    if (issues.length > 0) console.warn("AI response repaired:", issues);
+    return value;
+  };
+
+  const content = await complete(template);
+  try {
+    return parse(content);
+  } catch (e: any) {
+    console.warn("Invalid AI response, asking again:", e.message);
+    const retry = await complete({
+      ...template,
+      prompt: `${template.prompt}
+
+Your previous answer could not be used: ${e.message}.
+Previous answer: ${content.slice(0, MAX_ECHO_LENGTH)}
+Reply again with valid JSON only, exactly in the requested format.`,
+    });
+    try {
+      return parse(retry);
+    } catch (retryError: any) {
+      throw new Error(`AI zwróciło nieprawidłową odpowiedź (${retryError.message})`);
+    }
+  }
+};
+
+/**
+ * Builds a full TextProvider for any chat-style model: the shared prompts go in, the JSON answers
+ * are turned into app objects. A new provider only has to implement `complete`.
+ */
+export const createPromptProvider = (id: TextProviderId, complete: CompleteFn): TextProvider => ({
+  id,
+
+  generateWords: async (category, level, count, existingWords) => {
+    const raw = await ask(complete, prompts.generateWords(category, level, count, existingWords));
+    return (raw.words as any[]).map((item): Word => ({
+      id: generateId(),
+      english: item.english,
+      polish: item.polish,
+      category,
+      level,
+      exampleSentence: item.exampleSentence,
+      ...detailsFromAi(item),
+      status: WordStatus.New,
+      nextReview: Date.now(),
+      lastReview: null,
+      attempts: 0,
+      correct: 0,
+      aiGenerated: true,
+      createdAt: Date.now(),
+    }));
+  },
+
+  translateWord: async (word, from) => {
+    const raw = await ask(complete, prompts.translateWord(word, from));
+    return { translation: raw.translation, exampleSentence: raw.exampleSentence, details: detailsFromAi(raw) };
+  },
+
+  generateExampleSentence: async (englishWord, polishContext) => {
+    const raw = await ask(complete, prompts.exampleSentence(englishWord, polishContext));
+    return raw.exampleSentence;
+  },
+
+  checkTranslation: async (polishWord, userEnglishInput) => {
+    const raw = await ask(complete, prompts.checkTranslation(polishWord, userEnglishInput));
+    return { isCorrect: raw.isCorrect, feedback: raw.feedback || '' };
+  },
+
+  completeWords: async (items) => {
+    const raw = await ask(complete, prompts.completeWords(items));
+    const byIndex = new Map((raw.items as any[]).map(r => [r.i, r]));
+
+    // Sides the user typed are never overwritten
+    return items.map((item, i) => {
+      const r = byIndex.get(i) || {};
+      return {
+        polish: item.polish || r.polish || '',
+        english: item.english || r.english || '',
+        exampleSentence: r.exampleSentence || '',
+      };
+    });
+  },
+});
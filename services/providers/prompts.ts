@@ -0,0 +1,94 @@
+import { LanguageLevel } from '../../types';
+
+// --- SHARED PROMPT TEMPLATES ---
+// Every prompt-based provider sends the same text. The JSON schema describes the expected answer;
+// providers that support structured output pass it along, the others rely on the prompt alone.
+// Answers are always JSON objects (never bare arrays) so OpenAI-style "json_object" mode works too.
+
+export type JsonSchema = Record<string, unknown>;
+
+export interface PromptTemplate {
+  prompt: string;
+  schema: JsonSchema;
+}
+
+const str = { type: 'string' };
+
+// Every property is required unless listed in `optional`; required strings must not be empty (see responseParser.ts)
+const object = (properties: Record<string, JsonSchema>, optional: string[] = []): JsonSchema => ({
+  type: 'object',
+  properties,
+  required: Object.keys(properties).filter(k => !optional.includes(k)),
+});
+
+const arrayOf = (items: JsonSchema): JsonSchema => ({ type: 'array', items, minItems: 1 });
+const listOf = (items: JsonSchema): JsonSchema => ({ type: 'array', items });
+
+// Optional word details (services/wordDetails.ts); a model that leaves them out still gives a usable answer
+const DETAIL_PROPERTIES: Record<string, JsonSchema> = {
+  exampleTranslation: str,
+  partOfSpeech: str,
+  ipa: str,
+  englishAlternatives: listOf(str),
+  polishAlternatives: listOf(str),
+  sense: str,
+  notes: str,
+};
+const DETAIL_KEYS = Object.keys(DETAIL_PROPERTIES);
+
+const DETAIL_INSTRUCTIONS = `Also give: "exampleTranslation" (the example sentence in Polish), "partOfSpeech" (noun, verb, adjective, adverb, pronoun, preposition, conjunction, interjection, phrase or other),
+    "ipa" (IPA transcription of the English word, without slashes), "englishAlternatives" and "polishAlternatives" (other correct translations with the SAME meaning, may be empty),
+    "sense" (only if the English word has several unrelated meanings: a few Polish words naming this one, e.g. "brzeg rzeki"; otherwise omit)
+    and "notes" (optional, one short note in Polish about irregular forms or usage).`;
+
+const topicOf = (category: string) => category === 'Losowe' ? 'random topics (general vocabulary)' : `"${category}"`;
+
+export const prompts = {
+  generateWords: (category: string, level: LanguageLevel, count: number, existingWords: string[]): PromptTemplate => ({
+    prompt: `Generate exactly ${count} English vocabulary words related to ${topicOf(category)} for CEFR level ${level}.
+    Exclude: ${existingWords.join(", ")}.
+    Requirements:
+    1. Provide the English word and its Polish translation.
+    2. The example sentence MUST CLEARLY illustrate the specific meaning of the Polish translation provided.
+    ${DETAIL_INSTRUCTIONS}
+    Return JSON only: {"words": [{"english": "...", "polish": "...", "exampleSentence": "...", "exampleTranslation": "...", "partOfSpeech": "...", "ipa": "...", "englishAlternatives": [], "polishAlternatives": []}]}`,
+    schema: object({ words: arrayOf(object({ english: str, polish: str, exampleSentence: str, ...DETAIL_PROPERTIES }, DETAIL_KEYS)) }),
+  }),
+
+  translateWord: (word: string, from: 'pl' | 'en'): PromptTemplate => ({
+    prompt: `Translate "${word}" from ${from === 'pl' ? 'Polish' : 'English'} to ${from === 'pl' ? 'English' : 'Polish'}.
+    Provide one simple example sentence using the English version of the word.
+    IMPORTANT: The 'exampleSentence' MUST be in ENGLISH.
+    ${DETAIL_INSTRUCTIONS}
+    Add "examples": two more short English sentences with the same meaning, each with its Polish translation.
+    Return JSON: {"translation": "...", "exampleSentence": "...", "exampleTranslation": "...", "partOfSpeech": "...", "ipa": "...", "englishAlternatives": [], "polishAlternatives": [], "examples": [{"english": "...", "polish": "..."}]}`,
+    schema: object({
+      translation: str,
+      exampleSentence: str,
+      ...DETAIL_PROPERTIES,
+      examples: listOf(object({ english: str, polish: str }, ['polish'])),
+    }, [...DETAIL_KEYS, 'examples']),
+  }),
+
+  exampleSentence: (englishWord: string, polishContext?: string): PromptTemplate => ({
+    prompt: `Generate one short, simple English example sentence using the word "${englishWord}".
+    ${polishContext ? `The sentence MUST reflect the specific meaning of this word as translated to Polish: "${polishContext}".` : ''}
+    Return JSON: {"exampleSentence": "..."}`,
+    schema: object({ exampleSentence: str }),
+  }),
+
+  checkTranslation: (polishWord: string, userEnglishInput: string): PromptTemplate => ({
+    prompt: `The user translates the Polish word "${polishWord}" into English as "${userEnglishInput}". Is it correct?
+    Accept synonyms and minor typos. Return JSON: {"isCorrect": boolean, "feedback": "Short feedback in Polish"}`,
+    schema: object({ isCorrect: { type: 'boolean' }, feedback: str }, ['feedback']),
+  }),
+
+  completeWords: (items: { polish: string; english: string }[]): PromptTemplate => ({
+    prompt: `For each item below, fill in the missing translation (null = missing, Polish <-> English) and write one short, simple ENGLISH example sentence.
+    The sentence MUST reflect the specific meaning of the Polish word. Keep the words that are already given unchanged.
+    Items: ${JSON.stringify(items.map((item, i) => ({ i, polish: item.polish || null, english: item.english || null })))}
+    Return JSON only: {"items": [{"i": 0, "polish": "...", "english": "...", "exampleSentence": "..."}]}`,
+    // Sides the user gave are kept anyway, so only the index is strictly needed
+    schema: object({ items: arrayOf(object({ i: { type: 'integer' }, polish: str, english: str, exampleSentence: str }, ['polish', 'english', 'exampleSentence'])) }),
+  }),
+};
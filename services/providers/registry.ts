@@ -0,0 +1,20 @@
+import { TextProvider, TextProviderId } from "./types";
+import { geminiProvider } from "./geminiProvider";
+import { perplexityProvider } from "./perplexityProvider";
+import { customProvider } from "./customProvider";
+import { offlineProvider } from "./offlineProvider";
+import { localProvider } from "./localProvider";
+
+// --- TEXT PROVIDER REGISTRY ---
+// Adding a provider: implement TextProvider in its own file (usually via createPromptProvider)
+// and list it here.
+
+const PROVIDERS: TextProvider[] = [geminiProvider, perplexityProvider, customProvider, localProvider, offlineProvider];
+
+const registry = new Map<TextProviderId, TextProvider>(PROVIDERS.map(p => [p.id, p]));
+
+/**
+ * Provider for a settings value. Values without a text implementation (e.g. the image-only
+ * 'pollinations' and 'deepai') use Gemini, as they always have.
+ */
+export const getTextProvider = (id: TextProviderId): TextProvider => registry.get(id) || geminiProvider;
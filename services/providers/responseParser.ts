@@ -0,0 +1,160 @@
+import { JsonSchema } from './prompts';
+
+// --- LLM RESPONSE PARSER ---
+// Models wrap JSON in prose or code fences, return a bare array where an object was asked for,
+// send "true" as a string or leave a field empty. The parser digs the JSON out, checks it against
+// the prompt's schema, repairs what it can and drops broken list items. Only when the answer
+// as a whole is unusable does it fail, with a message that can be sent back to the model.
+
+export interface ParseResult {
+  value: any;
+  issues: string[]; // Repairs and dropped items, for logging
+}
+
+/**
+ * Finds the end of the JSON value starting at `start`, skipping brackets inside strings.
+ */
+const matchingBracket = (text: string, start: number): number => {
+  const stack: string[] = [];
+  let inString = false;
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (char === '\\') i++;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '{' || char === '[') {
+      stack.push(char === '{' ? '}' : ']');
+    } else if (char === '}' || char === ']') {
+      if (stack.pop() !== char) return -1;
+      if (stack.length === 0) return i;
+    }
+  }
+  return -1;
+};
+
+/**
+ * Pulls the first JSON value out of a reply: plain JSON, a ```json fence, or JSON surrounded by prose.
+ */
+export const extractJson = (content: string): unknown => {
+  const trimmed = content.trim();
+  try {
+    return JSON.parse(trimmed);
+  } catch { /* not plain JSON, keep looking */ }
+
+  const fenced = trimmed.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  if (fenced) {
+    try {
+      return JSON.parse(fenced[1].trim());
+    } catch { /* fall through to bracket search */ }
+  }
+
+  for (let i = 0; i < trimmed.length; i++) {
+    if (trimmed[i] !== '{' && trimmed[i] !== '[') continue;
+    const end = matchingBracket(trimmed, i);
+    if (end === -1) continue;
+    try {
+      return JSON.parse(trimmed.slice(i, end + 1));
+    } catch { /* try the next candidate */ }
+  }
+
+  throw new Error('the answer does not contain valid JSON');
+};
+
+const INVALID = Symbol('invalid');
+
+/**
+ * Checks `value` against a (subset of) JSON schema: object, array, string, boolean, integer, number.
+ * Returns the repaired value or INVALID; required strings must be non-empty.
+ */
+const check = (value: any, schema: JsonSchema, path: string, issues: string[], errors: string[]): any => {
+  const type = schema.type;
+
+  if (type === 'string') {
+    if (typeof value === 'number') return String(value);
+    if (typeof value !== 'string') { errors.push(`${path} must be a string`); return INVALID; }
+    return value.trim();
+  }
+
+  if (type === 'boolean') {
+    if (typeof value === 'boolean') return value;
+    if (value === 'true' || value === 'false') { issues.push(`${path}: boolean given as a string`); return value === 'true'; }
+    errors.push(`${path} must be true or false`);
+    return INVALID;
+  }
+
+  if (type === 'integer' || type === 'number') {
+    const num = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+    if (typeof num !== 'number' || !Number.isFinite(num) || (type === 'integer' && !Number.isInteger(num))) {
+      errors.push(`${path} must be ${type === 'integer' ? 'an integer' : 'a number'}`);
+      return INVALID;
+    }
+    return num;
+  }
+
+  if (type === 'array') {
+    if (!Array.isArray(value)) { errors.push(`${path} must be an array`); return INVALID; }
+    const items: any[] = [];
+    value.forEach((item, i) => {
+      const itemErrors: string[] = [];
+      const checked = check(item, schema.items as JsonSchema, `${path}[${i}]`, issues, itemErrors);
+      // A broken list item is dropped, the rest of the list is still usable
+      if (checked === INVALID) issues.push(`dropped ${path}[${i}]: ${itemErrors.join(', ')}`);
+      else items.push(checked);
+    });
+    const minItems = typeof schema.minItems === 'number' ? schema.minItems : 0;
+    if (items.length < minItems) {
+      errors.push(value.length > 0 ? `${path}: every item was invalid` : `${path} must not be empty`);
+      return INVALID;
+    }
+    return items;
+  }
+
+  if (type === 'object') {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) { errors.push(`${path} must be an object`); return INVALID; }
+    const properties = (schema.properties || {}) as Record<string, JsonSchema>;
+    const required = (schema.required || []) as string[];
+    const result: Record<string, any> = {};
+    let valid = true;
+
+    Object.entries(properties).forEach(([key, propSchema]) => {
+      const propPath = path ? `${path}.${key}` : key;
+      if (value[key] === undefined || value[key] === null) {
+        if (required.includes(key)) { errors.push(`missing "${propPath}"`); valid = false; }
+        return;
+      }
+      const checked = check(value[key], propSchema, propPath, issues, errors);
+      if (checked === INVALID) {
+        if (required.includes(key)) valid = false;
+        return;
+      }
+      if (required.includes(key) && checked === '') { errors.push(`"${propPath}" is empty`); valid = false; return; }
+      result[key] = checked;
+    });
+    return valid ? result : INVALID;
+  }
+
+  return value;
+};
+
+/**
+ * Extracts and validates a reply. Throws an Error whose message explains what was wrong.
+ */
+export const parseResponse = (content: string, schema: JsonSchema): ParseResult => {
+  let value: any = extractJson(content);
+  const issues: string[] = [];
+
+  // A bare list where {"words": [...]} was expected: wrap it in the single array property
+  const properties = (schema.properties || {}) as Record<string, JsonSchema>;
+  const arrayKeys = Object.keys(properties).filter(k => properties[k].type === 'array');
+  if (schema.type === 'object' && Array.isArray(value) && arrayKeys.length === 1) {
+    issues.push(`wrapped bare array in "${arrayKeys[0]}"`);
+    value = { [arrayKeys[0]]: value };
+  }
+
+  const errors: string[] = [];
+  const checked = check(value, schema, '', issues, errors);
+  if (checked === INVALID) throw new Error(errors.slice(0, 5).join('; '));
+  return { value: checked, issues };
+};
@@ -0,0 +1,34 @@
+import { Word, LanguageLevel, Settings, WordDetails } from '../../types';
+
+export type TextProviderId = Settings['aiProvider'];
+
+export interface TranslationResult {
+  translation: string;
+  exampleSentence: string;
+  details?: WordDetails; // Given by the prompt-based providers, not by the offline dictionary
+}
+
+export interface CheckResult {
+  isCorrect: boolean;
+  feedback: string; // Short, in Polish
+}
+
+export interface WordCompletion {
+  polish: string;
+  english: string;
+  exampleSentence: string;
+}
+
+/**
+ * Everything the app asks of a text AI. One implementation per `Settings.aiProvider`,
+ * registered in ./registry.ts. Methods throw on failure; geminiService decides what the user sees.
+ */
+export interface TextProvider {
+  id: TextProviderId;
+  generateWords(category: string, level: LanguageLevel, count: number, existingWords: string[]): Promise<Word[]>;
+  translateWord(word: string, from: 'pl' | 'en'): Promise<TranslationResult>;
+  generateExampleSentence(englishWord: string, polishContext?: string): Promise<string>;
+  checkTranslation(polishWord: string, userEnglishInput: string): Promise<CheckResult>;
+  // Fills in the missing side and an example sentence for many words at once, keeping input order
+  completeWords(items: { polish: string; english: string }[]): Promise<WordCompletion[]>;
+}
@@ -0,0 +1,13 @@
+// --- SERVICE WORKER ---
+// public/sw.js caches the app shell, images and TTS audio so study sessions work offline.
+// Only registered in production builds: in dev it would serve stale modules.
+
+export const registerServiceWorker = () => {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+
+  window.addEventListener('load', () => {
+    navigator.serviceWorker
+      .register(`/sw.js?build=${__BUILD_ID__}`)
+      .catch(e => console.warn("Service worker registration failed", e));
+  });
+};
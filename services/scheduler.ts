@@ -0,0 +1,180 @@
+import { Word, WordStatus, ReviewGrade, ReviewLog, StudyDirection, DirectionProgress } from '../types';
+
+// --- SPACED REPETITION (SM-2) ---
+// Every word carries its own ease factor, current interval and repetition count.
+// A successful review multiplies the interval by the ease, so a well-known word
+// drifts out to months between reviews instead of coming back every week.
+// Both study directions (PL -> EN and EN -> PL) have their own state: the word's top-level
+// fields hold PL -> EN, `word.reverse` holds EN -> PL.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Failed words come back later in the same day
+const RELEARN_DELAY_MS = 10 * 60 * 1000;
+
+export const DEFAULT_EASE = 2.5;
+const MIN_EASE = 1.3;
+
+// Interval (days) from which a word counts as "learned"
+const LEARNED_INTERVAL_DAYS = 21;
+
+// Hard answers grow the interval only a little, Easy ones get an extra boost
+const HARD_INTERVAL_MULTIPLIER = 1.2;
+const EASY_BONUS = 1.3;
+
+// SM-2 recall quality (0-5) used for the ease update of each grade
+const GRADE_QUALITY: Record<ReviewGrade, number> = {
+  [ReviewGrade.Again]: 1,
+  [ReviewGrade.Hard]: 3,
+  [ReviewGrade.Good]: 4,
+  [ReviewGrade.Easy]: 5,
+};
+
+// Upper bound so a typo in the math can never schedule something 100 years ahead
+const MAX_INTERVAL_DAYS = 3650;
+
+export interface SchedulingState {
+  easeFactor: number;
+  interval: number; // Days
+  repetitions: number;
+  lapses: number;
+}
+
+const clampEase = (ease: number) => Math.max(MIN_EASE, Math.round(ease * 100) / 100);
+
+// A direction that was never studied
+const freshProgress = (): DirectionProgress => ({
+  status: WordStatus.New,
+  nextReview: 0,
+  lastReview: null,
+  attempts: 0,
+  correct: 0,
+  easeFactor: DEFAULT_EASE,
+  interval: 0,
+  repetitions: 0,
+  lapses: 0,
+});
+
+export const schedulerService = {
+  /**
+   * Scheduling fields of one direction of a word.
+   */
+  getProgress: (word: Word, direction: StudyDirection = 'pl-en'): DirectionProgress => {
+    if (direction === 'en-pl') return word.reverse ?? freshProgress();
+    const { status, nextReview, lastReview, attempts, correct, easeFactor, interval, repetitions, lapses } = word;
+    return { status, nextReview, lastReview, attempts, correct, easeFactor, interval, repetitions, lapses };
+  },
+
+  /**
+   * Copy of the word with the progress of one direction replaced.
+   */
+  withProgress: (word: Word, direction: StudyDirection, progress: DirectionProgress): Word =>
+    direction === 'en-pl' ? { ...word, reverse: progress } : { ...word, ...progress },
+
+  /**
+   * True if the word should be asked in this direction now (due, or never studied that way).
+   */
+  isDue: (word: Word, direction: StudyDirection, now: number = Date.now()): boolean => {
+    const progress = schedulerService.getProgress(word, direction);
+    return progress.status === WordStatus.New || progress.nextReview <= now;
+  },
+
+  /**
+   * Reads the scheduling state of a word (or of one direction), falling back to fresh SM-2 defaults.
+   */
+  getState: (progress: DirectionProgress): SchedulingState => ({
+    easeFactor: progress.easeFactor ?? DEFAULT_EASE,
+    interval: progress.interval ?? 0,
+    repetitions: progress.repetitions ?? 0,
+    lapses: progress.lapses ?? 0,
+  }),
+
+  /**
+   * Applies one graded review to one direction of a word; the other direction is left untouched.
+   * Again resets the word into relearning, Hard/Good/Easy grow the interval by increasing amounts.
+   */
+  review: (word: Word, grade: ReviewGrade, now: number = Date.now(), direction: StudyDirection = 'pl-en'): Word => {
+    const progress = schedulerService.getProgress(word, direction);
+    const state = schedulerService.getState(progress);
+    const q = GRADE_QUALITY[grade];
+    const isCorrect = grade !== ReviewGrade.Again;
+
+    let { easeFactor, interval, repetitions, lapses } = state;
+    let nextReview: number;
+
+    if (isCorrect) {
+      if (grade === ReviewGrade.Hard) {
+        interval = repetitions === 0 ? 1 : Math.max(interval + 1, Math.round(interval * HARD_INTERVAL_MULTIPLIER));
+      } else if (repetitions === 0) {
+        interval = grade === ReviewGrade.Easy ? 4 : 1;
+      } else if (repetitions === 1) {
+        interval = grade === ReviewGrade.Easy ? Math.round(6 * EASY_BONUS) : 6;
+      } else {
+        interval = Math.round(interval * easeFactor * (grade === ReviewGrade.Easy ? EASY_BONUS : 1));
+      }
+      interval = Math.min(interval, MAX_INTERVAL_DAYS);
+      repetitions += 1;
+      nextReview = now + interval * DAY_MS;
+    } else {
+      repetitions = 0;
+      interval = 0;
+      lapses += 1;
+      nextReview = now + RELEARN_DELAY_MS;
+    }
+
+    easeFactor = clampEase(easeFactor + (0.1 - (5 - q) * (0.08 + (5 - q) * 0.02)));
+
+    return schedulerService.withProgress(word, direction, {
+      easeFactor,
+      interval,
+      repetitions,
+      lapses,
+      attempts: progress.attempts + 1,
+      correct: isCorrect ? progress.correct + 1 : 0,
+      lastReview: now,
+      nextReview,
+      // Words that were already learned stay learned as long as they keep being recalled
+      status: interval >= LEARNED_INTERVAL_DAYS || (isCorrect && progress.status === WordStatus.Learned)
+        ? WordStatus.Learned
+        : WordStatus.Learning,
+    });
+  },
+
+  /**
+   * Forgets the progress in both directions; the word is studied as new again. Review logs are kept.
+   */
+  reset: (word: Word, now: number = Date.now()): Word => ({
+    ...schedulerService.withProgress(word, 'pl-en', { ...freshProgress(), nextReview: now }),
+    reverse: undefined,
+  }),
+
+  /**
+   * Marks one direction as known without reviewing it: the first review comes after the "learned" interval.
+   */
+  markLearned: (word: Word, direction: StudyDirection, now: number = Date.now()): Word => {
+    const progress = schedulerService.getProgress(word, direction);
+    return schedulerService.withProgress(word, direction, {
+      ...progress,
+      ...schedulerService.getState(progress),
+      status: WordStatus.Learned,
+      interval: Math.max(progress.interval ?? 0, LEARNED_INTERVAL_DAYS),
+      repetitions: Math.max(progress.repetitions ?? 0, 2),
+      nextReview: now + Math.max(progress.interval ?? 0, LEARNED_INTERVAL_DAYS) * DAY_MS,
+    });
+  },
+
+  /**
+   * Recomputes a word's schedule from scratch by replaying its review history.
+   * Used when the algorithm changes, so old answers are re-scored with the new rules.
+   */
+  replay: (word: Word, logs: ReviewLog[]): Word => {
+    const history = logs
+      .filter(l => l.wordId === word.id)
+      .sort((a, b) => a.timestamp - b.timestamp);
+    if (history.length === 0) return word;
+
+    // The reverse direction only exists once it has a review in the history
+    const fresh: Word = { ...word, ...freshProgress(), nextReview: word.nextReview, lastReview: word.lastReview, reverse: undefined };
+    return history.reduce((w, log) => schedulerService.review(w, log.grade, log.timestamp, log.direction), fresh);
+  },
+};
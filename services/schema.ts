@@ -0,0 +1,296 @@
+import { Word, Settings, AppStats, ReviewLog, LanguageLevel, WordStatus, StudyMode, ReviewGrade, StudyDirection } from '../types';
+import { DEFAULT_EASE } from './scheduler';
+import { PARTS_OF_SPEECH } from './wordDetails';
+
+// --- SCHEMA REGISTRY ---
+// Every stored shape has its own version. Old local data and old backups are brought up to date
+// by running the migrations from their version to the current one, one step at a time.
+// Bump the version and add a migration whenever a stored shape changes.
+
+export type SchemaEntity = 'word' | 'settings' | 'stats' | 'reviewLog';
+export type SchemaVersions = Record<SchemaEntity, number>;
+
+export const SCHEMA_VERSIONS: SchemaVersions = {
+  word: 2,
+  settings: 2,
+  stats: 2,
+  reviewLog: 2,
+};
+
+// Data saved before versioning existed
+export const INITIAL_VERSIONS: SchemaVersions = { word: 1, settings: 1, stats: 1, reviewLog: 1 };
+
+type Migration = (record: any) => any;
+
+// MIGRATIONS[entity][n] upgrades a record from version n to n + 1
+const MIGRATIONS: Record<SchemaEntity, Record<number, Migration>> = {
+  word: {
+    // v2: SM-2 scheduler state. Old decks only stored a streak of correct answers (1/3/7 day ladder).
+    1: (w) => {
+      if (typeof w.easeFactor === 'number') return w;
+      const streak = Number(w.correct) || 0;
+      return {
+        ...w,
+        easeFactor: DEFAULT_EASE,
+        interval: streak === 0 ? 0 : streak === 1 ? 1 : streak === 2 ? 3 : 7,
+        repetitions: streak,
+        lapses: 0,
+      };
+    },
+  },
+  settings: {
+    // v2: the hf_space provider (ByteDance/SDXL-Lightning) kept returning 503, move users to Pollinations
+    1: (s) => ({
+      ...s,
+      imageProvider: s.imageProvider === 'hf_space' ? 'pollinations' : s.imageProvider,
+    }),
+  },
+  stats: {
+    // v2: streak freezes
+    1: (s) => ({ ...s, streakFreezes: s.streakFreezes ?? 0 }),
+  },
+  reviewLog: {
+    // v2: study direction; everything before was Polish -> English
+    1: (l) => ({ ...l, direction: l.direction ?? 'pl-en' }),
+  },
+};
+
+/**
+ * Runs every migration between `fromVersion` and the current version.
+ */
+export const migrateRecord = <T>(entity: SchemaEntity, record: any, fromVersion: number): T => {
+  let result = record;
+  for (let v = fromVersion; v < SCHEMA_VERSIONS[entity]; v++) {
+    const step = MIGRATIONS[entity][v];
+    if (step) result = step(result);
+  }
+  return result;
+};
+
+/**
+ * Reads the per-entity versions of a backup or stored data set.
+ * Backups written before the registry only carry `version: 1` and are treated as the initial schema.
+ */
+export const readSchemaVersions = (data: any): SchemaVersions => {
+  const stored = data?.schema;
+  if (!stored || typeof stored !== 'object') return { ...INITIAL_VERSIONS };
+  const versions = { ...INITIAL_VERSIONS };
+  (Object.keys(versions) as SchemaEntity[]).forEach(entity => {
+    if (Number.isInteger(stored[entity]) && stored[entity] > 0) versions[entity] = stored[entity];
+  });
+  return versions;
+};
+
+// --- VALIDATION ---
+
+export interface ValidationReport {
+  fixed: string[];
+  rejected: string[];
+}
+
+export const emptyReport = (): ValidationReport => ({ fixed: [], rejected: [] });
+
+const generateId = () => Math.random().toString(36).substr(2, 9);
+
+const isNonEmptyString = (v: unknown): v is string => typeof v === 'string' && v.trim().length > 0;
+const isFiniteNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+
+const LEVELS = Object.values(LanguageLevel) as string[];
+const STATUSES = Object.values(WordStatus) as string[];
+const MODES = Object.values(StudyMode) as string[];
+const DIRECTIONS: StudyDirection[] = ['pl-en', 'en-pl'];
+
+// Allowed values of the string-union settings, so a typo in a backup can't select a provider that doesn't exist
+const SETTINGS_OPTIONS: Partial<Record<keyof Settings, string[]>> = {
+  level: LEVELS,
+  aiProvider: ['gemini', 'free', 'pollinations', 'deepai', 'perplexity', 'custom', 'local'],
+  imageProvider: ['auto', 'pollinations', 'hf_space', 'custom', 'gemini', 'deepai', 'huggingface'],
+  visualStyle: ['minimalist', 'realistic', 'cartoon', 'pixel', 'cyberpunk'],
+  aiModelType: ['flash', 'pro'],
+  localServerType: ['ollama', 'llamacpp'],
+  studyDirection: ['pl-en', 'en-pl', 'mixed'],
+  // For list settings the options apply to every item
+  imageProviderChain: ['gemini', 'custom', 'huggingface', 'deepai', 'pollinations'],
+};
+
+const isValidProgress = (p: any): boolean =>
+  !!p && typeof p === 'object' &&
+  STATUSES.includes(p.status) &&
+  isFiniteNumber(p.nextReview) &&
+  (p.lastReview === null || isFiniteNumber(p.lastReview)) &&
+  [p.attempts, p.correct, p.interval, p.repetitions, p.lapses].every(n => isFiniteNumber(n) && n >= 0) &&
+  isFiniteNumber(p.easeFactor) && p.easeFactor >= 1.3;
+
+/**
+ * Validates a list of words field by field. Broken optional fields are repaired,
+ * words without both a Polish and an English side are rejected.
+ */
+export const validateWords = (raw: unknown[], fallbackLevel: LanguageLevel, report: ValidationReport): Word[] => {
+  const seenIds = new Set<string>();
+  const words: Word[] = [];
+
+  raw.forEach((item: any, index) => {
+    const label = `Słowo #${index + 1}${isNonEmptyString(item?.english) ? ` (${item.english})` : ''}`;
+    if (!item || typeof item !== 'object') {
+      report.rejected.push(`${label}: nie jest obiektem`);
+      return;
+    }
+    if (!isNonEmptyString(item.polish) || !isNonEmptyString(item.english)) {
+      report.rejected.push(`${label}: brak tłumaczenia polskiego lub angielskiego`);
+      return;
+    }
+
+    const fix = (msg: string) => report.fixed.push(`${label}: ${msg}`);
+    const word: Word = { ...item, polish: item.polish.trim(), english: item.english.trim() };
+
+    if (!isNonEmptyString(word.id) || seenIds.has(word.id)) {
+      if (seenIds.has(word.id)) fix('zduplikowane id, nadano nowe');
+      else fix('brak id, nadano nowe');
+      word.id = generateId();
+    }
+    seenIds.add(word.id);
+
+    if (!isNonEmptyString(word.category)) { word.category = 'własne'; fix('brak kategorii'); }
+    if (!LEVELS.includes(word.level)) { word.level = fallbackLevel; fix(`nieznany poziom, ustawiono ${fallbackLevel}`); }
+    if (!STATUSES.includes(word.status)) { word.status = WordStatus.New; fix('nieznany status, ustawiono "new"'); }
+    if (!isFiniteNumber(word.nextReview)) { word.nextReview = Date.now(); fix('nieprawidłowa data powtórki'); }
+    if (word.lastReview !== null && !isFiniteNumber(word.lastReview)) { word.lastReview = null; fix('nieprawidłowa data ostatniej powtórki'); }
+    if (!isFiniteNumber(word.attempts) || word.attempts < 0) { word.attempts = 0; fix('nieprawidłowa liczba prób'); }
+    if (!isFiniteNumber(word.correct) || word.correct < 0) { word.correct = 0; fix('nieprawidłowa liczba poprawnych odpowiedzi'); }
+    if (word.exampleSentence !== undefined && typeof word.exampleSentence !== 'string') { delete word.exampleSentence; fix('nieprawidłowe zdanie przykładowe'); }
+    if (word.imageUrl !== undefined && typeof word.imageUrl !== 'string') { delete word.imageUrl; fix('nieprawidłowy adres obrazka'); }
+    if (word.createdAt !== undefined && !isFiniteNumber(word.createdAt)) { delete word.createdAt; fix('nieprawidłowa data dodania'); }
+    (['englishAlternatives', 'polishAlternatives'] as const).forEach(key => {
+      if (word[key] === undefined) return;
+      if (!Array.isArray(word[key])) { delete word[key]; fix('nieprawidłowa lista innych tłumaczeń'); return; }
+      const valid = word[key]!.filter(isNonEmptyString);
+      if (valid.length !== word[key]!.length) fix('pominięto nieprawidłowe inne tłumaczenia');
+      word[key] = valid;
+    });
+    (['exampleTranslation', 'ipa', 'sense', 'notes'] as const).forEach(key => {
+      if (word[key] !== undefined && typeof word[key] !== 'string') { delete word[key]; fix(`nieprawidłowe pole "${key}"`); }
+    });
+    if (word.partOfSpeech !== undefined && !PARTS_OF_SPEECH.includes(word.partOfSpeech)) { delete word.partOfSpeech; fix('nieznana część mowy'); }
+    if (word.examples !== undefined) {
+      if (!Array.isArray(word.examples)) { delete word.examples; fix('nieprawidłowa lista przykładów'); }
+      else {
+        const valid = word.examples
+          .filter((e: any) => e && isNonEmptyString(e.english))
+          .map((e: any) => ({ english: e.english, polish: typeof e.polish === 'string' ? e.polish : '' }));
+        if (valid.length !== word.examples.length) fix('pominięto nieprawidłowe przykłady');
+        word.examples = valid;
+      }
+    }
+    // Older exports stored this as a string or left it out entirely; not worth reporting
+    word.aiGenerated = item.aiGenerated === true;
+
+    if (!isFiniteNumber(word.easeFactor) || word.easeFactor < 1.3) { word.easeFactor = DEFAULT_EASE; fix('nieprawidłowy współczynnik łatwości'); }
+    if (!isFiniteNumber(word.interval) || word.interval < 0) { word.interval = 0; fix('nieprawidłowy interwał'); }
+    if (!isFiniteNumber(word.repetitions) || word.repetitions < 0) { word.repetitions = 0; fix('nieprawidłowa liczba powtórzeń'); }
+    if (!isFiniteNumber(word.lapses) || word.lapses < 0) { word.lapses = 0; fix('nieprawidłowa liczba pomyłek'); }
+
+    // EN -> PL progress: optional, a broken one is dropped and the direction starts over
+    if (word.reverse !== undefined && !isValidProgress(word.reverse)) { delete word.reverse; fix('nieprawidłowy postęp w kierunku EN → PL, zaczyna od nowa'); }
+
+    words.push(word);
+  });
+
+  return words;
+};
+
+/**
+ * Keeps only known settings with the right type; anything else falls back to the defaults.
+ */
+export const validateSettings = (raw: unknown, defaults: Settings, report: ValidationReport): Settings => {
+  const settings: Settings = { ...defaults };
+  if (!raw || typeof raw !== 'object') return settings;
+
+  Object.entries(raw as Record<string, unknown>).forEach(([key, value]) => {
+    if (!(key in defaults)) {
+      report.fixed.push(`Ustawienia: pominięto nieznane pole "${key}"`);
+      return;
+    }
+    const k = key as keyof Settings;
+    const expected = defaults[k];
+    const options = SETTINGS_OPTIONS[k];
+
+    if (Array.isArray(expected)) {
+      if (!Array.isArray(value)) {
+        report.fixed.push(`Ustawienia: nieprawidłowa wartość "${key}", przywrócono domyślną`);
+        return;
+      }
+      const items = value.filter((item, i) => (!options || options.includes(item)) && value.indexOf(item) === i);
+      if (items.length !== value.length) report.fixed.push(`Ustawienia: pominięto nieznane pozycje w "${key}"`);
+      (settings as any)[k] = items;
+      return;
+    }
+
+    if (typeof value !== typeof expected || (options && !options.includes(value as string))) {
+      report.fixed.push(`Ustawienia: nieprawidłowa wartość "${key}", przywrócono domyślną`);
+      return;
+    }
+    (settings as any)[k] = value;
+  });
+
+  return settings;
+};
+
+export const validateStats = (raw: unknown, defaults: AppStats, report: ValidationReport): AppStats => {
+  const stats: AppStats = { ...defaults };
+  if (!raw || typeof raw !== 'object') return stats;
+
+  (Object.keys(defaults) as (keyof AppStats)[]).forEach(key => {
+    const value = (raw as any)[key];
+    if (value === undefined) return;
+    if (isFiniteNumber(value) && value >= 0) stats[key] = value;
+    else report.fixed.push(`Statystyki: nieprawidłowa wartość "${key}", przywrócono domyślną`);
+  });
+
+  return stats;
+};
+
+export const validateReviewLogs = (raw: unknown[], report: ValidationReport): ReviewLog[] => {
+  const logs: ReviewLog[] = [];
+  let rejected = 0;
+
+  raw.forEach((item: any) => {
+    if (
+      !item || !isNonEmptyString(item.wordId) || !isFiniteNumber(item.timestamp) ||
+      !Object.values(ReviewGrade).includes(item.grade)
+    ) {
+      rejected++;
+      return;
+    }
+    logs.push({
+      id: isNonEmptyString(item.id) ? item.id : generateId(),
+      wordId: item.wordId,
+      timestamp: item.timestamp,
+      mode: MODES.includes(item.mode) ? item.mode : StudyMode.flashcards,
+      grade: item.grade,
+      responseTimeMs: isFiniteNumber(item.responseTimeMs) ? item.responseTimeMs : 0,
+      direction: DIRECTIONS.includes(item.direction) ? item.direction : 'pl-en',
+      previousInterval: isFiniteNumber(item.previousInterval) ? item.previousInterval : 0,
+      nextInterval: isFiniteNumber(item.nextInterval) ? item.nextInterval : 0,
+    });
+  });
+
+  // Logs are numerous and only matter in aggregate, so report them as one line
+  if (rejected > 0) report.rejected.push(`Historia powtórek: odrzucono ${rejected} uszkodzonych wpisów`);
+  return logs;
+};
+
+/**
+ * Human-readable summary of a report, capped so it fits in an alert().
+ */
+export const summarizeReport = (report: ValidationReport, limit: number = 8): string => {
+  const lines: string[] = [];
+  const section = (title: string, items: string[]) => {
+    if (items.length === 0) return;
+    lines.push(`${title} (${items.length}):`);
+    items.slice(0, limit).forEach(i => lines.push(`• ${i}`));
+    if (items.length > limit) lines.push(`• ...i ${items.length - limit} więcej`);
+  };
+  section('Naprawiono', report.fixed);
+  section('Odrzucono', report.rejected);
+  return lines.join('\n');
+};
@@ -1,10 +1,28 @@
-import { Word, Settings, AppStats, LanguageLevel, WordStatus, StudySource } from '../types';
+import { Word, Settings, AppStats, LanguageLevel, WordStatus, StudySource, ReviewLog, PendingAiTask } from '../types';
+import { StorageAdapter, LocalStorageAdapter, createStorageAdapter } from './storageAdapter';
+import {
+  SCHEMA_VERSIONS, INITIAL_VERSIONS, SchemaVersions, ValidationReport, emptyReport, migrateRecord, readSchemaVersions,
+  validateWords, validateSettings, validateStats, validateReviewLogs
+} from './schema';
+import { mergeService } from './merge';
 
-const KEYS = {
-  WORDS: 'vocab_words',
-  SETTINGS: 'vocab_settings',
-  STATS: 'vocab_stats',
-};
+// Format of the backup file itself; the stored shapes are versioned separately in `schema`
+const BACKUP_FORMAT_VERSION = 2;
+
+export interface ImportResult {
+  importedWords: number;
+  report: ValidationReport;
+}
+
+export interface PreparedImport {
+  words: Word[];
+  settings: Settings;
+  stats: AppStats;
+  reviews: ReviewLog[];
+  hasStats: boolean;
+  hasReviews: boolean;
+  report: ValidationReport;
+}
 
 const DEFAULT_SETTINGS: Settings = {
   userName: 'Uczeń',
@@ -12,6 +30,8 @@ const DEFAULT_SETTINGS: Settings = {
   level: LanguageLevel.B1,
   aiProvider: 'free',
   imageProvider: 'pollinations',
+  imageProviderChain: ['gemini', 'custom', 'huggingface', 'pollinations'],
+  imageCacheBudgetMb: 100,
   visualStyle: 'minimalist',
   aiModelType: 'flash',
   huggingFaceApiKey: '',
@@ -21,9 +41,14 @@ const DEFAULT_SETTINGS: Settings = {
   customApiKey: '',
   customApiBase: '',
   customModelName: '',
+  localServerType: 'ollama',
+  localApiBase: 'http://localhost:11434',
+  localModelName: '',
   enableTTS: true,
   enableSoundEffects: true,
   preferredStudySource: StudySource.All,
+  studyDirection: 'pl-en',
+  useStreakFreezes: true,
 };
 
 const DEFAULT_STATS: AppStats = {
@@ -31,6 +56,7 @@ const DEFAULT_STATS: AppStats = {
   learnedWords: 0,
   streakDays: 0,
   lastStudyDate: 0,
+  streakFreezes: 0,
 };
 
 // Seed data for first launch
@@ -42,93 +68,219 @@ const SEED_WORDS: Word[] = [
   { id: '5', polish: 'szczęście', english: 'happiness', category: 'emocje', level: LanguageLevel.B1, status: WordStatus.New, nextReview: Date.now(), lastReview: null, attempts: 0, correct: 0, aiGenerated: false },
 ];
 
+// --- IN-MEMORY CACHE ---
+// Reads are synchronous from memory; every save updates the cache and is written
+// through to the adapter in the background (in order, so later saves always win).
+let adapter: StorageAdapter = new LocalStorageAdapter();
+let cache = {
+  words: SEED_WORDS,
+  settings: DEFAULT_SETTINGS,
+  stats: DEFAULT_STATS,
+  reviews: [] as ReviewLog[],
+  pendingTasks: [] as PendingAiTask[],
+};
+
+let writeQueue: Promise<void> = Promise.resolve();
+const persist = (operation: () => Promise<void>) => {
+  writeQueue = writeQueue.then(operation).catch(e => console.error("Storage write error", e));
+};
+
+// Upgrades raw stored or imported data to the current schema and validates it
+const upgradeData = (raw: { words: any[]; settings: any; stats: any; reviews: any[] }, versions: SchemaVersions) => {
+  const report = emptyReport();
+  const settings = validateSettings(migrateRecord('settings', raw.settings || {}, versions.settings), DEFAULT_SETTINGS, report);
+  return {
+    report,
+    settings,
+    words: validateWords(raw.words.map(w => migrateRecord('word', w, versions.word)), settings.level, report),
+    stats: validateStats(migrateRecord('stats', raw.stats || {}, versions.stats), DEFAULT_STATS, report),
+    reviews: validateReviewLogs(raw.reviews.map(l => migrateRecord('reviewLog', l, versions.reviewLog)), report),
+  };
+};
+
+const isCurrentSchema = (versions: SchemaVersions) =>
+  (Object.keys(SCHEMA_VERSIONS) as (keyof SchemaVersions)[]).every(k => versions[k] === SCHEMA_VERSIONS[k]);
+
 export const storageService = {
-  getWords: (): Word[] => {
+  /**
+   * Opens the storage backend and loads everything into memory. Must finish before the app renders.
+   */
+  init: async () => {
+    adapter = await createStorageAdapter();
     try {
-      const data = localStorage.getItem(KEYS.WORDS);
-      const words = data ? JSON.parse(data) : SEED_WORDS;
-      return words.map((w: any) => ({
-        ...w,
-        aiGenerated: w.aiGenerated === true
-      }));
-    } catch {
-      return SEED_WORDS;
+      const [versions, words, settings, stats, reviews, pendingTasks] = await Promise.all([
+        adapter.loadSchemaVersions(), adapter.loadWords(), adapter.loadSettings(), adapter.loadStats(), adapter.loadReviewLogs(),
+        adapter.loadPendingTasks()
+      ]);
+      const storedVersions = versions || INITIAL_VERSIONS;
+      const upgraded = upgradeData({ words: words || SEED_WORDS, settings, stats, reviews }, storedVersions);
+      cache = {
+        words: upgraded.words,
+        settings: upgraded.settings,
+        stats: upgraded.stats,
+        reviews: upgraded.reviews.sort((a, b) => a.timestamp - b.timestamp),
+        pendingTasks,
+      };
+
+      if (upgraded.report.fixed.length > 0 || upgraded.report.rejected.length > 0) {
+        console.warn("Stored data repaired on load", upgraded.report);
+      }
+
+      // Write the upgraded shapes back once, so migrations don't run on every start
+      if (!isCurrentSchema(storedVersions)) {
+        const { words: w, settings: s, stats: st, reviews: r } = cache;
+        persist(async () => {
+          await adapter.saveWords(w);
+          await adapter.saveSettings(s);
+          await adapter.saveStats(st);
+          await adapter.replaceReviewLogs(r);
+          await adapter.saveSchemaVersions(SCHEMA_VERSIONS);
+        });
+      }
+    } catch (e) {
+      console.error("Storage load error", e);
     }
   },
 
+  getBackend: () => adapter.kind,
+
+  getWords: (): Word[] => cache.words,
+
   saveWords: (words: Word[]) => {
-    localStorage.setItem(KEYS.WORDS, JSON.stringify(words));
+    cache.words = words;
+    persist(() => adapter.saveWords(words));
   },
 
-  getSettings: (): Settings => {
-    try {
-      const data = localStorage.getItem(KEYS.SETTINGS);
-      const loadedSettings = data ? JSON.parse(data) : {};
-      
-      const merged = { ...DEFAULT_SETTINGS, ...loadedSettings };
-
-      // FORCE MIGRATION: If user is on the broken 'hf_space' (ByteDance/SDXL-Lightning often 503s), switch them to Pollinations
-      if (merged.imageProvider === 'hf_space') {
-          console.warn("Migrating from broken hf_space to pollinations");
-          merged.imageProvider = 'pollinations';
-          // Save immediately so we don't migrate every time
-          localStorage.setItem(KEYS.SETTINGS, JSON.stringify(merged));
-      }
+  getSettings: (): Settings => cache.settings,
 
-      return merged;
-    } catch {
-      return DEFAULT_SETTINGS;
-    }
+  saveSettings: (settings: Settings) => {
+    cache.settings = settings;
+    persist(() => adapter.saveSettings(settings));
   },
 
-  saveSettings: (settings: Settings) => {
-    localStorage.setItem(KEYS.SETTINGS, JSON.stringify(settings));
+  getStats: (): AppStats => cache.stats,
+
+  saveStats: (stats: AppStats) => {
+    cache.stats = stats;
+    persist(() => adapter.saveStats(stats));
+  },
+
+  // --- Review History ---
+
+  getReviewLogs: (wordId?: string): ReviewLog[] => {
+    return wordId ? cache.reviews.filter(l => l.wordId === wordId) : cache.reviews;
+  },
+
+  addReviewLogs: (logs: ReviewLog[]) => {
+    if (logs.length === 0) return;
+    cache.reviews = [...cache.reviews, ...logs];
+    persist(() => adapter.addReviewLogs(logs));
+  },
+
+  replaceReviewLogs: (logs: ReviewLog[]) => {
+    cache.reviews = logs;
+    persist(() => adapter.replaceReviewLogs(logs));
+  },
+
+  // --- Offline AI Queue ---
+
+  getPendingTasks: (): PendingAiTask[] => cache.pendingTasks,
+
+  savePendingTasks: (tasks: PendingAiTask[]) => {
+    cache.pendingTasks = tasks;
+    persist(() => adapter.savePendingTasks(tasks));
   },
 
-  getStats: (): AppStats => {
+  // --- Image Cache ---
+
+  getCachedImage: async (key: string): Promise<string | undefined> => {
     try {
-      const data = localStorage.getItem(KEYS.STATS);
-      return data ? JSON.parse(data) : DEFAULT_STATS;
-    } catch {
-      return DEFAULT_STATS;
+      return await adapter.getImage(key);
+    } catch (e) {
+      console.warn("Cache read error", e);
+      return undefined;
     }
   },
 
-  saveStats: (stats: AppStats) => {
-    localStorage.setItem(KEYS.STATS, JSON.stringify(stats));
+  cacheImage: (key: string, url: string) => {
+    persist(() => adapter.putImage(key, url));
   },
 
   // --- Backup & Restore Features ---
   
   getAllData: () => {
     return {
+      version: BACKUP_FORMAT_VERSION,
+      schema: SCHEMA_VERSIONS,
       words: storageService.getWords(),
       settings: storageService.getSettings(),
       stats: storageService.getStats(),
-      timestamp: Date.now(),
-      version: 1
+      reviews: storageService.getReviewLogs(),
+      timestamp: Date.now()
     };
   },
 
-  importData: (data: any) => {
+  /**
+   * Reads a backup of any known version without saving anything. Old shapes are migrated,
+   * every record is validated, and the report lists what had to be repaired or was dropped.
+   */
+  prepareImport: (data: any): PreparedImport => {
     if (!data || !Array.isArray(data.words)) {
       throw new Error("Nieprawidłowy format pliku kopii zapasowej.");
     }
-    
-    // Save Words
-    localStorage.setItem(KEYS.WORDS, JSON.stringify(data.words));
-    
-    // Save Settings (merge to ensure new keys exist)
-    const currentSettings = storageService.getSettings();
-    const newSettings = { ...currentSettings, ...(data.settings || {}) };
-    localStorage.setItem(KEYS.SETTINGS, JSON.stringify(newSettings));
-
-    // Save Stats
-    if (data.stats) {
-      localStorage.setItem(KEYS.STATS, JSON.stringify(data.stats));
+
+    const versions = readSchemaVersions(data);
+    const tooNew = (Object.keys(versions) as (keyof SchemaVersions)[]).filter(k => versions[k] > SCHEMA_VERSIONS[k]);
+    if (tooNew.length > 0) {
+      throw new Error("Kopia zapasowa pochodzi z nowszej wersji aplikacji. Zaktualizuj aplikację i spróbuj ponownie.");
     }
-    
-    // Optional: Try to migrate cached images keys if we ever implement complex caching logic
-    // For now, browser cache handles the images themselves based on URLs.
-  }
+
+    const upgraded = upgradeData({
+      words: data.words,
+      // Merge onto current settings so keys missing from the backup don't reset to defaults
+      settings: data.settings ? { ...storageService.getSettings(), ...data.settings } : storageService.getSettings(),
+      stats: data.stats,
+      reviews: Array.isArray(data.reviews) ? data.reviews : [],
+    }, { ...versions, settings: data.settings ? versions.settings : SCHEMA_VERSIONS.settings });
+
+    if (upgraded.words.length === 0 && data.words.length > 0) {
+      throw new Error("Żadne słowo w kopii zapasowej nie przeszło walidacji.");
+    }
+
+    return {
+      ...upgraded,
+      hasStats: !!data.stats,
+      hasReviews: Array.isArray(data.reviews),
+    };
+  },
+
+  /**
+   * Saves a prepared backup.
+   * 'replace' overwrites everything; 'merge' keeps local settings and combines words and history
+   * (see services/merge.ts), so progress from both devices survives.
+   */
+  applyImport: (prepared: PreparedImport, mode: 'replace' | 'merge'): ImportResult => {
+    if (mode === 'merge') {
+      const merge = mergeService.preview(storageService.getWords(), prepared.words);
+      storageService.saveWords(merge.result);
+      if (prepared.hasReviews) {
+        storageService.replaceReviewLogs(mergeService.mergeReviewLogs(cache.reviews, prepared.reviews, merge.idMap));
+      }
+      return { importedWords: merge.added.length + merge.updated.length, report: prepared.report };
+    }
+
+    storageService.saveWords(prepared.words);
+    storageService.saveSettings(prepared.settings);
+
+    if (prepared.hasStats) {
+      storageService.saveStats(prepared.stats);
+    }
+
+    // Review History (older backups don't have it)
+    if (prepared.hasReviews) {
+      storageService.replaceReviewLogs(prepared.reviews);
+    }
+
+    return { importedWords: prepared.words.length, report: prepared.report };
+  },
 };
@@ -0,0 +1,266 @@
+import { Word, Settings, AppStats, ReviewLog, PendingAiTask } from '../types';
+import { SchemaVersions } from './schema';
+
+// --- STORAGE ADAPTERS ---
+// storageService keeps everything in memory and writes through to one of these.
+// IndexedDB is the default (no 5 MB quota, images in their own store),
+// localStorage is kept as a fallback for browsers/private modes where IndexedDB is unavailable.
+
+export interface StorageAdapter {
+  readonly kind: 'indexeddb' | 'localstorage';
+
+  // Versions of the stored shapes, null for data saved before versioning existed
+  loadSchemaVersions(): Promise<SchemaVersions | null>;
+  saveSchemaVersions(versions: SchemaVersions): Promise<void>;
+
+  loadWords(): Promise<Word[] | null>;
+  saveWords(words: Word[]): Promise<void>;
+
+  loadSettings(): Promise<Partial<Settings> | null>;
+  saveSettings(settings: Settings): Promise<void>;
+
+  loadStats(): Promise<Partial<AppStats> | null>;
+  saveStats(stats: AppStats): Promise<void>;
+
+  loadReviewLogs(): Promise<ReviewLog[]>;
+  addReviewLogs(logs: ReviewLog[]): Promise<void>;
+  replaceReviewLogs(logs: ReviewLog[]): Promise<void>;
+
+  getImage(key: string): Promise<string | undefined>;
+  putImage(key: string, url: string): Promise<void>;
+  getAllImages(): Promise<Record<string, string>>;
+
+  // Offline AI queue; device-local, not part of backups
+  loadPendingTasks(): Promise<PendingAiTask[]>;
+  savePendingTasks(tasks: PendingAiTask[]): Promise<void>;
+}
+
+// --- localStorage (legacy layout, also used as the migration source) ---
+
+export const LEGACY_KEYS = {
+  WORDS: 'vocab_words',
+  SETTINGS: 'vocab_settings',
+  STATS: 'vocab_stats',
+  REVIEWS: 'vocab_reviews',
+  SCHEMA: 'vocab_schema',
+  PENDING: 'vocab_pending_ai',
+  IMAGE_PREFIX: 'img_',
+};
+
+// Set once the data lives in IndexedDB. Not one of LEGACY_KEYS, so clearAll() keeps it: an empty
+// localStorage with this flag means the data is in IndexedDB, not that this is a first start.
+const MIGRATED_MARKER = 'vocab_moved_to_indexeddb';
+
+const readJson = <T>(key: string): T | null => {
+  const data = localStorage.getItem(key);
+  return data ? JSON.parse(data) : null;
+};
+
+export class LocalStorageAdapter implements StorageAdapter {
+  readonly kind = 'localstorage' as const;
+
+  async loadSchemaVersions() { return readJson<SchemaVersions>(LEGACY_KEYS.SCHEMA); }
+  async saveSchemaVersions(versions: SchemaVersions) { localStorage.setItem(LEGACY_KEYS.SCHEMA, JSON.stringify(versions)); }
+
+  async loadWords() { return readJson<Word[]>(LEGACY_KEYS.WORDS); }
+  async saveWords(words: Word[]) { localStorage.setItem(LEGACY_KEYS.WORDS, JSON.stringify(words)); }
+
+  async loadSettings() { return readJson<Partial<Settings>>(LEGACY_KEYS.SETTINGS); }
+  async saveSettings(settings: Settings) { localStorage.setItem(LEGACY_KEYS.SETTINGS, JSON.stringify(settings)); }
+
+  async loadStats() { return readJson<Partial<AppStats>>(LEGACY_KEYS.STATS); }
+  async saveStats(stats: AppStats) { localStorage.setItem(LEGACY_KEYS.STATS, JSON.stringify(stats)); }
+
+  async loadReviewLogs() { return readJson<ReviewLog[]>(LEGACY_KEYS.REVIEWS) || []; }
+  async addReviewLogs(logs: ReviewLog[]) {
+    const all = [...(await this.loadReviewLogs()), ...logs];
+    await this.replaceReviewLogs(all);
+  }
+  async replaceReviewLogs(logs: ReviewLog[]) { localStorage.setItem(LEGACY_KEYS.REVIEWS, JSON.stringify(logs)); }
+
+  async getImage(key: string) { return localStorage.getItem(LEGACY_KEYS.IMAGE_PREFIX + key) || undefined; }
+  async putImage(key: string, url: string) { localStorage.setItem(LEGACY_KEYS.IMAGE_PREFIX + key, url); }
+  async getAllImages() {
+    const images: Record<string, string> = {};
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key?.startsWith(LEGACY_KEYS.IMAGE_PREFIX)) {
+        images[key.slice(LEGACY_KEYS.IMAGE_PREFIX.length)] = localStorage.getItem(key) || '';
+      }
+    }
+    return images;
+  }
+
+  async loadPendingTasks() { return readJson<PendingAiTask[]>(LEGACY_KEYS.PENDING) || []; }
+  async savePendingTasks(tasks: PendingAiTask[]) { localStorage.setItem(LEGACY_KEYS.PENDING, JSON.stringify(tasks)); }
+
+  /** True if there is anything in the old vocab_* layout worth migrating. */
+  hasData(): boolean {
+    return localStorage.getItem(LEGACY_KEYS.WORDS) !== null || localStorage.getItem(LEGACY_KEYS.SETTINGS) !== null;
+  }
+
+  markMigrated() { localStorage.setItem(MIGRATED_MARKER, '1'); }
+  wasMigrated(): boolean { return localStorage.getItem(MIGRATED_MARKER) !== null; }
+
+  /** Frees the quota after the data has been copied elsewhere. */
+  clearAll() {
+    const keys: string[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key && (key.startsWith(LEGACY_KEYS.IMAGE_PREFIX) || Object.values(LEGACY_KEYS).includes(key))) keys.push(key);
+    }
+    keys.forEach(k => localStorage.removeItem(k));
+  }
+}
+
+// --- IndexedDB ---
+
+const DB_NAME = 'ai_vocab';
+const DB_VERSION = 1;
+
+const STORES = {
+  WORDS: 'words',
+  SETTINGS: 'settings',
+  STATS: 'stats',
+  REVIEWS: 'reviews',
+  IMAGES: 'images',
+  META: 'meta',
+};
+
+// Words, settings and stats are each stored as a single record under this key;
+// the word list keeps its order that way.
+const CURRENT = 'current';
+
+const MIGRATED_FLAG = 'migratedFromLocalStorage';
+const SCHEMA_KEY = 'schema';
+const PENDING_KEY = 'pendingAiTasks';
+
+const request = <T>(req: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      [STORES.WORDS, STORES.SETTINGS, STORES.STATS, STORES.IMAGES, STORES.META].forEach(name => {
+        if (!db.objectStoreNames.contains(name)) db.createObjectStore(name);
+      });
+      if (!db.objectStoreNames.contains(STORES.REVIEWS)) {
+        db.createObjectStore(STORES.REVIEWS, { keyPath: 'id' }).createIndex('wordId', 'wordId');
+      }
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+    req.onblocked = () => reject(new Error('IndexedDB blocked by another tab'));
+  });
+
+export class IndexedDbAdapter implements StorageAdapter {
+  readonly kind = 'indexeddb' as const;
+
+  private constructor(private db: IDBDatabase) {}
+
+  static async open(): Promise<IndexedDbAdapter> {
+    return new IndexedDbAdapter(await openDatabase());
+  }
+
+  private async get<T>(store: string, key: string): Promise<T | undefined> {
+    return request<T | undefined>(this.db.transaction(store).objectStore(store).get(key));
+  }
+
+  private write(store: string, fn: (os: IDBObjectStore) => void): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const tx = this.db.transaction(store, 'readwrite');
+      fn(tx.objectStore(store));
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  }
+
+  async loadSchemaVersions() { return (await this.get<SchemaVersions>(STORES.META, SCHEMA_KEY)) ?? null; }
+  saveSchemaVersions(versions: SchemaVersions) { return this.write(STORES.META, os => os.put(versions, SCHEMA_KEY)); }
+
+  async loadWords() { return (await this.get<Word[]>(STORES.WORDS, CURRENT)) ?? null; }
+  saveWords(words: Word[]) { return this.write(STORES.WORDS, os => os.put(words, CURRENT)); }
+
+  async loadSettings() { return (await this.get<Partial<Settings>>(STORES.SETTINGS, CURRENT)) ?? null; }
+  saveSettings(settings: Settings) { return this.write(STORES.SETTINGS, os => os.put(settings, CURRENT)); }
+
+  async loadStats() { return (await this.get<Partial<AppStats>>(STORES.STATS, CURRENT)) ?? null; }
+  saveStats(stats: AppStats) { return this.write(STORES.STATS, os => os.put(stats, CURRENT)); }
+
+  loadReviewLogs() { return request<ReviewLog[]>(this.db.transaction(STORES.REVIEWS).objectStore(STORES.REVIEWS).getAll()); }
+  addReviewLogs(logs: ReviewLog[]) { return this.write(STORES.REVIEWS, os => logs.forEach(l => os.put(l))); }
+  replaceReviewLogs(logs: ReviewLog[]) {
+    return this.write(STORES.REVIEWS, os => {
+      os.clear();
+      logs.forEach(l => os.put(l));
+    });
+  }
+
+  getImage(key: string) { return this.get<string>(STORES.IMAGES, key); }
+  putImage(key: string, url: string) { return this.write(STORES.IMAGES, os => os.put(url, key)); }
+  async getAllImages() {
+    const os = this.db.transaction(STORES.IMAGES).objectStore(STORES.IMAGES);
+    const [keys, values] = await Promise.all([request(os.getAllKeys()), request(os.getAll())]);
+    const images: Record<string, string> = {};
+    keys.forEach((k, i) => { images[String(k)] = values[i]; });
+    return images;
+  }
+
+  async loadPendingTasks() { return (await this.get<PendingAiTask[]>(STORES.META, PENDING_KEY)) ?? []; }
+  savePendingTasks(tasks: PendingAiTask[]) { return this.write(STORES.META, os => os.put(tasks, PENDING_KEY)); }
+
+  /**
+   * One-time copy of the old vocab_* / img_* localStorage keys into IndexedDB.
+   * The old keys are removed afterwards to give the quota back.
+   */
+  async migrateFrom(legacy: LocalStorageAdapter): Promise<boolean> {
+    if (await this.get<boolean>(STORES.META, MIGRATED_FLAG)) return false;
+
+    if (legacy.hasData()) {
+      const [versions, words, settings, stats, reviews, images] = await Promise.all([
+        legacy.loadSchemaVersions(), legacy.loadWords(), legacy.loadSettings(), legacy.loadStats(), legacy.loadReviewLogs(), legacy.getAllImages()
+      ]);
+      // Copied as-is; storageService upgrades old shapes after loading
+      if (versions) await this.saveSchemaVersions(versions);
+      if (words) await this.saveWords(words);
+      if (settings) await this.write(STORES.SETTINGS, os => os.put(settings, CURRENT));
+      if (stats) await this.write(STORES.STATS, os => os.put(stats, CURRENT));
+      if (reviews.length > 0) await this.addReviewLogs(reviews);
+      await this.write(STORES.IMAGES, os => Object.entries(images).forEach(([k, v]) => os.put(v, k)));
+    }
+
+    await this.write(STORES.META, os => os.put(true, MIGRATED_FLAG));
+    legacy.clearAll();
+    return true;
+  }
+}
+
+/**
+ * Opens IndexedDB (migrating old localStorage data on first run) or falls back to localStorage.
+ * Throws when IndexedDB can't be opened but the data already moved there: starting on an empty
+ * localStorage would show the sample words and strand everything saved in that session.
+ */
+export const createStorageAdapter = async (): Promise<StorageAdapter> => {
+  const legacy = new LocalStorageAdapter();
+  if (typeof indexedDB === 'undefined') return legacy;
+
+  try {
+    const adapter = await IndexedDbAdapter.open();
+    await adapter.migrateFrom(legacy);
+    // Also for data migrated before the marker existed
+    legacy.markMigrated();
+    return adapter;
+  } catch (e) {
+    if (legacy.wasMigrated() && !legacy.hasData()) {
+      throw new Error(`IndexedDB unavailable and the data is stored there: ${e instanceof Error ? e.message : e}`);
+    }
+    console.warn("IndexedDB unavailable, falling back to localStorage", e);
+    return legacy;
+  }
+};
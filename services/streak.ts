@@ -0,0 +1,91 @@
+import { AppStats, ReviewLog } from '../types';
+
+// --- STREAKS & DAILY GOAL ---
+// Days are counted in the user's own timezone, so studying at 23:30 and again at 00:30
+// counts as two days, exactly as the user sees it on their clock.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Every full week of streak earns one freeze, up to this many in reserve
+const FREEZE_EARN_EVERY_DAYS = 7;
+export const MAX_STREAK_FREEZES = 2;
+
+const localTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+const formatters: Record<string, Intl.DateTimeFormat> = {};
+
+/**
+ * Calendar day (YYYY-MM-DD) of a timestamp in the given timezone.
+ */
+export const dayKey = (timestamp: number, timeZone: string = localTimeZone()): string => {
+  // en-CA formats dates as YYYY-MM-DD
+  if (!formatters[timeZone]) {
+    formatters[timeZone] = new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' });
+  }
+  return formatters[timeZone].format(new Date(timestamp));
+};
+
+// Consecutive integer per calendar day, so the difference of two days is the number of days between them
+const dayIndex = (timestamp: number, timeZone?: string): number => {
+  const [y, m, d] = dayKey(timestamp, timeZone).split('-').map(Number);
+  return Math.round(Date.UTC(y, m - 1, d) / DAY_MS);
+};
+
+export const streakService = {
+  /**
+   * Updates the streak after a finished study session.
+   * Missed days are covered by freezes (if enabled and enough are left), otherwise the streak restarts.
+   */
+  recordStudyDay: (stats: AppStats, useFreezes: boolean, now: number = Date.now()): AppStats => {
+    const today = dayIndex(now);
+    let streakDays = stats.streakDays;
+    let streakFreezes = stats.streakFreezes ?? 0;
+
+    if (!stats.lastStudyDate || streakDays === 0) {
+      streakDays = 1;
+    } else {
+      const gap = today - dayIndex(stats.lastStudyDate);
+      if (gap <= 0) {
+        return { ...stats, lastStudyDate: now };
+      }
+
+      const missedDays = gap - 1;
+      if (missedDays === 0) {
+        streakDays += 1;
+      } else if (useFreezes && streakFreezes >= missedDays) {
+        streakFreezes -= missedDays;
+        streakDays += 1;
+      } else {
+        streakDays = 1;
+      }
+    }
+
+    if (streakDays % FREEZE_EARN_EVERY_DAYS === 0) {
+      streakFreezes = Math.min(MAX_STREAK_FREEZES, streakFreezes + 1);
+    }
+
+    return { ...stats, streakDays, streakFreezes, lastStudyDate: now };
+  },
+
+  /**
+   * Streak as it should be displayed right now: a streak that can no longer be continued today shows as 0.
+   */
+  getCurrentStreak: (stats: AppStats, useFreezes: boolean, now: number = Date.now()): number => {
+    if (!stats.lastStudyDate) return 0;
+    const missedDays = dayIndex(now) - dayIndex(stats.lastStudyDate) - 1;
+    if (missedDays <= 0) return stats.streakDays;
+    if (useFreezes && (stats.streakFreezes ?? 0) >= missedDays) return stats.streakDays;
+    return 0;
+  },
+
+  /**
+   * Number of distinct words answered today.
+   */
+  countReviewedToday: (logs: ReviewLog[], now: number = Date.now()): number => {
+    const today = dayKey(now);
+    // No calendar day is longer than 26h (DST), so older logs can be skipped without formatting them
+    const recent = logs.filter(l => now - l.timestamp < 26 * 60 * 60 * 1000);
+    const wordIds = new Set(recent.filter(l => dayKey(l.timestamp) === today).map(l => l.wordId));
+    return wordIds.size;
+  },
+};
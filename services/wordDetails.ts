@@ -0,0 +1,104 @@
+import { Word, PartOfSpeech, WordDetails, ExampleSentence } from '../types';
+
+// --- WORD DETAILS ---
+// Part of speech, pronunciation, alternatives and extra examples. All optional: a word is complete
+// without them, they only make cards and answer checking better.
+
+export const PART_OF_SPEECH_LABELS: Record<PartOfSpeech, string> = {
+  noun: 'rzeczownik',
+  verb: 'czasownik',
+  adjective: 'przymiotnik',
+  adverb: 'przysłówek',
+  pronoun: 'zaimek',
+  preposition: 'przyimek',
+  conjunction: 'spójnik',
+  interjection: 'wykrzyknik',
+  phrase: 'wyrażenie',
+  other: 'inne',
+};
+
+export const PARTS_OF_SPEECH = Object.keys(PART_OF_SPEECH_LABELS) as PartOfSpeech[];
+
+// Models answer "Noun", "adj.", "phrasal verb" and the like
+const ALIASES: Record<string, PartOfSpeech> = {
+  n: 'noun', v: 'verb', adj: 'adjective', adv: 'adverb', pron: 'pronoun', prep: 'preposition', conj: 'conjunction',
+  'phrasal verb': 'phrase', idiom: 'phrase', expression: 'phrase', determiner: 'other', article: 'other', numeral: 'other',
+};
+
+export const toPartOfSpeech = (raw: unknown): PartOfSpeech | undefined => {
+  if (typeof raw !== 'string') return undefined;
+  const key = raw.trim().toLowerCase().replace(/\.$/, '');
+  if (!key) return undefined;
+  return (PARTS_OF_SPEECH as string[]).includes(key) ? key as PartOfSpeech : ALIASES[key] ?? 'other';
+};
+
+const text = (v: unknown): string | undefined => typeof v === 'string' && v.trim() ? v.trim() : undefined;
+
+const list = (v: unknown): string[] | undefined => {
+  if (!Array.isArray(v)) return undefined;
+  const items = Array.from(new Set(v.map(text).filter((i): i is string => !!i)));
+  return items.length > 0 ? items : undefined;
+};
+
+/**
+ * Details from an AI answer, with empty fields left out so they never overwrite anything.
+ */
+export const detailsFromAi = (raw: any): WordDetails => {
+  const examples = Array.isArray(raw?.examples)
+    ? raw.examples
+        .filter((e: any) => text(e?.english))
+        .map((e: any): ExampleSentence => ({ english: e.english.trim(), polish: text(e.polish) || '' }))
+    : [];
+  const details: WordDetails = {
+    exampleTranslation: text(raw?.exampleTranslation),
+    englishAlternatives: list(raw?.englishAlternatives),
+    polishAlternatives: list(raw?.polishAlternatives),
+    partOfSpeech: toPartOfSpeech(raw?.partOfSpeech),
+    // Some models wrap the transcription in slashes or brackets
+    ipa: text(raw?.ipa)?.replace(/^[/[]+|[/\]]+$/g, ''),
+    sense: text(raw?.sense),
+    notes: text(raw?.notes),
+    examples: examples.length > 0 ? examples : undefined,
+  };
+  return compactDetails(details);
+};
+
+/**
+ * Drops the fields that are not set, so spreading the details over a word never clears anything.
+ */
+export const compactDetails = (details: WordDetails): WordDetails => {
+  const result = { ...details };
+  (Object.keys(result) as (keyof WordDetails)[]).forEach(k => { if (result[k] === undefined) delete result[k]; });
+  return result;
+};
+
+/**
+ * Details from an edit form, ready to save: empty example rows are dropped.
+ */
+export const finalizeDetails = (details: WordDetails): WordDetails => {
+  const examples = (details.examples || [])
+    .filter(e => e.english.trim())
+    .map(e => ({ english: e.english.trim(), polish: e.polish.trim() }));
+  return compactDetails({ ...details, examples: examples.length > 0 ? examples : undefined });
+};
+
+const DETAIL_KEYS: (keyof WordDetails)[] = [
+  'exampleTranslation', 'englishAlternatives', 'polishAlternatives', 'partOfSpeech', 'ipa', 'sense', 'notes', 'examples',
+];
+
+export const pickDetails = (word: Word): WordDetails =>
+  compactDetails(Object.fromEntries(DETAIL_KEYS.map(k => [k, word[k]])) as WordDetails);
+
+/**
+ * The word with its details replaced; fields missing from `details` are removed.
+ */
+export const withDetails = (word: Word, details: WordDetails): Word => {
+  const result = { ...word };
+  DETAIL_KEYS.forEach(k => { delete result[k]; });
+  return { ...result, ...compactDetails(details) };
+};
+
+/**
+ * "a, b; c" -> ["a", "b", "c"], for the comma-separated inputs of the edit forms.
+ */
+export const parseList = (value: string): string[] | undefined => list(value.split(/[,;]/));
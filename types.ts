@@ -12,8 +12,51 @@ export enum StudyMode {
   typing = 'typing',
   match = 'match',
   listening = 'listening',
+  multipleChoice = 'multipleChoice',
+  cloze = 'cloze',
 }
 
+// Self-assessed recall for a single answer (keyboard shortcuts 1-4 in Flashcard)
+export enum ReviewGrade {
+  Again = 1,
+  Hard = 2,
+  Good = 3,
+  Easy = 4,
+}
+
+// Which side of the word is asked: 'pl-en' shows Polish and expects English, 'en-pl' the other way round
+export type StudyDirection = 'pl-en' | 'en-pl';
+// Chosen per session; 'mixed' picks whichever direction of each word is due
+export type SessionDirection = StudyDirection | 'mixed';
+
+export interface SessionResult {
+  wordId: string;
+  grade: ReviewGrade;
+  responseTimeMs: number;
+  direction?: StudyDirection; // Defaults to 'pl-en'
+}
+
+// One answer given in a study session. Kept forever so schedules can be rebuilt later.
+export interface ReviewLog {
+  id: string;
+  wordId: string;
+  timestamp: number;
+  mode: StudyMode;
+  grade: ReviewGrade;
+  responseTimeMs: number;
+  direction: StudyDirection;
+  previousInterval: number; // Days
+  nextInterval: number; // Days
+}
+
+// AI work that couldn't run offline, stored until the connection returns (services/offlineQueue.ts)
+export type PendingAiTask = { id: string; createdAt: number; attempts?: number } & (
+  // A typed answer that wasn't an exact match; the word is graded once the AI has checked it
+  | { type: 'checkTranslation'; wordId: string; polish: string; answer: string; responseTimeMs: number }
+  | { type: 'generateWords'; category: string; level: LanguageLevel; count: number }
+  | { type: 'exampleSentence'; wordId: string; english: string; polish: string }
+);
+
 export enum StudySource {
   All = 'all',
   Manual = 'manual',
@@ -39,15 +82,54 @@ export interface Word {
   correct: number;
   imageUrl?: string;
   exampleSentence?: string;
+  exampleTranslation?: string; // Polish translation of exampleSentence
+  // Other translations accepted as correct answers (services/answerMatcher.ts)
+  englishAlternatives?: string[];
+  polishAlternatives?: string[];
+  partOfSpeech?: PartOfSpeech;
+  ipa?: string; // Pronunciation of the English word, without slashes
+  // Which meaning this entry is when the word has several ("bank": "brzeg rzeki" / "instytucja finansowa")
+  sense?: string;
+  notes?: string;
+  examples?: ExampleSentence[]; // More sentences besides exampleSentence
   aiGenerated: boolean;
+  createdAt?: number; // Timestamp; missing in words added before it was recorded
+  // SM-2 scheduling state (see services/scheduler.ts)
+  easeFactor?: number;
+  interval?: number; // Days
+  repetitions?: number;
+  lapses?: number;
+  // Progress in the English -> Polish direction, scheduled on its own. The fields above are Polish -> English.
+  // Missing until the word is first studied that way.
+  reverse?: DirectionProgress;
 }
 
+export type PartOfSpeech =
+  'noun' | 'verb' | 'adjective' | 'adverb' | 'pronoun' | 'preposition' | 'conjunction' | 'interjection' | 'phrase' | 'other';
+
+export interface ExampleSentence {
+  english: string;
+  polish: string; // Translation, may be empty
+}
+
+// The optional descriptive fields of a word, as filled in by the AI
+export type WordDetails = Pick<Word,
+  'exampleTranslation' | 'englishAlternatives' | 'polishAlternatives' | 'partOfSpeech' | 'ipa' | 'sense' | 'notes' | 'examples'>;
+
+// Scheduling state of one study direction of a word
+export type DirectionProgress = Pick<Word,
+  'status' | 'nextReview' | 'lastReview' | 'attempts' | 'correct' | 'easeFactor' | 'interval' | 'repetitions' | 'lapses'>;
+
 export interface Settings {
   userName: string;
   dailyGoal: number;
   level: LanguageLevel;
-  aiProvider: 'gemini' | 'free' | 'pollinations' | 'deepai' | 'perplexity' | 'custom';
+  aiProvider: 'gemini' | 'free' | 'pollinations' | 'deepai' | 'perplexity' | 'custom' | 'local';
   imageProvider: 'auto' | 'pollinations' | 'hf_space' | 'custom' | 'gemini' | 'deepai' | 'huggingface';
+  // Order in which imageProvider 'auto' tries the generators (see services/images/registry.ts)
+  imageProviderChain: Exclude<Settings['imageProvider'], 'auto' | 'hf_space'>[];
+  // Size budget of the offline image cache (services/imageCache.ts)
+  imageCacheBudgetMb: number;
   visualStyle: 'minimalist' | 'realistic' | 'cartoon' | 'pixel' | 'cyberpunk';
   aiModelType: 'flash' | 'pro';
   huggingFaceApiKey: string;
@@ -57,9 +139,15 @@ export interface Settings {
   customApiKey: string;
   customApiBase: string;
   customModelName: string;
+  // Self-hosted model (aiProvider 'local'), no key needed
+  localServerType: 'ollama' | 'llamacpp';
+  localApiBase: string;
+  localModelName: string;
   enableTTS: boolean;
   enableSoundEffects: boolean;
   preferredStudySource: StudySource;
+  studyDirection: SessionDirection;
+  useStreakFreezes: boolean;
 }
 
 export interface AppStats {
@@ -67,4 +155,5 @@ export interface AppStats {
   learnedWords: number;
   streakDays: number;
   lastStudyDate: number;
+  streakFreezes: number; // Earned freezes left, each covers one missed day
 }
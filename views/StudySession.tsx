@@ -1,14 +1,25 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { Word, StudyMode } from '../types';
+import { Word, StudyMode, ReviewGrade, SessionResult, StudyDirection } from '../types';
 import Flashcard from '../components/Flashcard';
 import { geminiService } from '../services/gemini';
+import { imageCache } from '../services/imageCache';
+import { storageService } from '../services/storage';
+import { offlineQueue } from '../services/offlineQueue';
+import { isAbortError } from '../services/imageScheduler';
+import { buildQuiz, QuizQuestion } from '../services/distractors';
+import { makeCloze, Cloze } from '../services/cloze';
+import { matchAnswer, AnswerMatch } from '../services/answerMatcher';
 
 interface StudySessionProps {
   mode: StudyMode;
   words: Word[];
-  onComplete: (results: { wordId: string; correct: boolean }[]) => void;
+  onComplete: (results: SessionResult[]) => void;
   onUpdateWord?: (word: Word) => void;
   onExit: () => void;
+  // The whole word base; multiple choice takes its wrong answers from here
+  allWords?: Word[];
+  // Direction each word is asked in, parallel to `words` (Polish -> English when missing)
+  directions?: StudyDirection[];
 }
 
 interface MatchCard {
@@ -19,10 +30,22 @@ interface MatchCard {
   state: 'default' | 'selected' | 'matched' | 'wrong' | 'correct';
 }
 
-const StudySession: React.FC<StudySessionProps> = ({ mode, words, onComplete, onUpdateWord, onExit }) => {
+// Modes that show a picture on the card
+const IMAGE_MODES = [StudyMode.flashcards, StudyMode.typing, StudyMode.listening, StudyMode.multipleChoice];
+
+// Upcoming cards whose images are loaded in the background
+const PREFETCH_COUNT = 3;
+
+// Grade of a local answer match; null means "not recognised", left to the AI where it can check
+const gradeOf = (match: AnswerMatch): ReviewGrade | null =>
+  match.kind === 'exact' || match.kind === 'variant' ? ReviewGrade.Good
+  : match.kind === 'typo' || match.kind === 'diacritics' ? ReviewGrade.Hard
+  : null;
+
+const StudySession: React.FC<StudySessionProps> = ({ mode, words, onComplete, onUpdateWord, onExit, allWords, directions }) => {
   // General State
   const [currentIndex, setCurrentIndex] = useState(0);
-  const [results, setResults] = useState<{ wordId: string; correct: boolean }[]>([]);
+  const [results, setResults] = useState<SessionResult[]>([]);
   const [currentImage, setCurrentImage] = useState<string | undefined>(undefined);
   const [isAudioUnlocked, setIsAudioUnlocked] = useState(false); // New state for mobile unlock
   
@@ -31,6 +54,16 @@ const StudySession: React.FC<StudySessionProps> = ({ mode, words, onComplete, on
   const [typingFeedback, setTypingFeedback] = useState<'neutral' | 'correct' | 'wrong'>('neutral');
   const [typingMessage, setTypingMessage] = useState<string>('');
 
+  // Multiple Choice State (built once, so options don't reshuffle when a word is updated mid-session)
+  const [quiz] = useState<QuizQuestion[]>(() => mode === StudyMode.multipleChoice
+      ? buildQuiz(words, allWords && allWords.length > 0 ? allWords : words, w => directions?.[words.indexOf(w)] ?? 'pl-en')
+      : []);
+  const [choice, setChoice] = useState<string | null>(null);
+
+  // Cloze State
+  const [cloze, setCloze] = useState<Cloze | null>(null);
+  const [isClozeLoading, setIsClozeLoading] = useState(false);
+
   // Match Mode State
   const [matchCards, setMatchCards] = useState<MatchCard[]>([]);
   const [matchMistakes, setMatchMistakes] = useState<Set<string>>(new Set());
@@ -40,7 +73,13 @@ const StudySession: React.FC<StudySessionProps> = ({ mode, words, onComplete, on
   const hasAutoPlayedRef = useRef(false);
   const fallbackAudioRef = useRef<HTMLAudioElement | null>(null);
 
+  // Response Time Tracking
+  const cardShownAtRef = useRef(Date.now());
+  const matchTimesRef = useRef<Record<string, number>>({});
+
   const currentWord = words[currentIndex];
+  const direction: StudyDirection = directions?.[currentIndex] ?? 'pl-en';
+  const isReverse = direction === 'en-pl';
 
   // --- AUDIO LOGIC ---
 
@@ -122,7 +161,15 @@ const StudySession: React.FC<StudySessionProps> = ({ mode, words, onComplete, on
 
   // --- EFFECTS ---
 
-  // Image Generation with DEBOUNCE
+  // Restart the response timer whenever a new card is shown
+  useEffect(() => {
+    cardShownAtRef.current = Date.now();
+  }, [currentIndex]);
+
+  const elapsed = () => Date.now() - cardShownAtRef.current;
+
+  // Image for the visible card. A short debounce skips cards that are swiped straight past;
+  // leaving the card aborts its request so it doesn't hold up the next one.
   useEffect(() => {
     let isMounted = true;
     hasAutoPlayedRef.current = false;
@@ -130,32 +177,25 @@ const StudySession: React.FC<StudySessionProps> = ({ mode, words, onComplete, on
     // Clear previous image immediately when word changes
     setCurrentImage(undefined);
 
-    if (currentWord && (mode === StudyMode.flashcards || mode === StudyMode.typing || mode === StudyMode.listening)) {
+    if (currentWord && IMAGE_MODES.includes(mode)) {
         
         if (currentWord.imageUrl) {
-            if (isMounted) setCurrentImage(currentWord.imageUrl);
+            // Served from the offline cache once it has been downloaded
+            const key = imageCache.keyFor(currentWord.english, storageService.getSettings().visualStyle);
+            imageCache.resolve(key, currentWord.imageUrl).then(url => { if (isMounted) setCurrentImage(url); });
         } else {
-            // DEBOUNCE: Wait 800ms before requesting image.
-            // If user swipes fast, this timeout is cleared and no request is sent.
+            const controller = new AbortController();
             const debounceTimer = setTimeout(() => {
-                if (!isMounted) return;
-
-                console.log("Requesting image for:", currentWord.english);
-                geminiService.generateImage(currentWord.english, currentWord.exampleSentence)
-                    .then(url => {
-                        if (isMounted) {
-                            setCurrentImage(url);
-                            if (onUpdateWord) {
-                                onUpdateWord({ ...currentWord, imageUrl: url });
-                            }
-                        }
-                    })
-                    .catch(err => console.error(err));
-            }, 800); // 800ms delay
+                geminiService.generateImage(currentWord.english, currentWord.exampleSentence, false, { priority: 'visible', signal: controller.signal })
+                    // Not stored on the word: the image cache keeps it per visual style
+                    .then(url => { if (isMounted) setCurrentImage(url); })
+                    .catch(err => { if (!isAbortError(err)) console.error(err); });
+            }, 300);
 
             return () => { 
                 isMounted = false; 
-                clearTimeout(debounceTimer); // Cancel request if component unmounts or word changes
+                clearTimeout(debounceTimer);
+                controller.abort();
             };
         }
     }
@@ -163,6 +203,54 @@ const StudySession: React.FC<StudySessionProps> = ({ mode, words, onComplete, on
     return () => { isMounted = false; };
   }, [currentWord, mode]); 
 
+  // Cloze: blank the word out of its example sentence; words without one get a generated sentence
+  useEffect(() => {
+    if (mode !== StudyMode.cloze || !currentWord) return;
+    let isMounted = true;
+    setIsClozeLoading(false);
+
+    const existing = currentWord.exampleSentence ? makeCloze(currentWord.exampleSentence, currentWord.english) : null;
+    setCloze(existing);
+    if (existing || !offlineQueue.canUseAi()) return;
+
+    setIsClozeLoading(true);
+    geminiService.generateExampleSentence(currentWord.english, currentWord.polish)
+        .then(sentence => {
+            if (!isMounted) return;
+            const generated = sentence ? makeCloze(sentence, currentWord.english) : null;
+            setCloze(generated);
+            // Kept for next time, but never replaces a sentence the word already had
+            if (generated && !currentWord.exampleSentence && onUpdateWord) {
+                onUpdateWord({ ...currentWord, exampleSentence: sentence });
+            }
+        })
+        .finally(() => { if (isMounted) setIsClozeLoading(false); });
+
+    return () => { isMounted = false; };
+  }, [currentWord, mode]);
+
+  // Prefetch the next few cards, each under its own signal (by card index): a card's prefetch is
+  // dropped once the user is past it, and everything still queued when the session ends
+  const prefetchControllersRef = useRef(new Map<number, AbortController>());
+  useEffect(() => {
+    const controllers = prefetchControllersRef.current;
+    return () => { controllers.forEach(c => c.abort()); controllers.clear(); };
+  }, []);
+
+  useEffect(() => {
+    const controllers = prefetchControllersRef.current;
+    controllers.forEach((c, i) => {
+        if (i < currentIndex) { c.abort(); controllers.delete(i); }
+    });
+    if (!IMAGE_MODES.includes(mode)) return;
+    for (let i = currentIndex + 1; i < Math.min(words.length, currentIndex + 1 + PREFETCH_COUNT); i++) {
+        if (controllers.has(i)) continue;
+        const controller = new AbortController();
+        controllers.set(i, controller);
+        geminiService.prefetchImages([words[i]], controller.signal);
+    }
+  }, [currentIndex, words, mode]);
+
   const handleRegenerateImage = () => {
      if (!currentWord) return;
      setCurrentImage(undefined);
@@ -170,8 +258,9 @@ const StudySession: React.FC<StudySessionProps> = ({ mode, words, onComplete, on
      geminiService.generateImage(currentWord.english, currentWord.exampleSentence, true)
         .then(url => {
             setCurrentImage(url);
-            if (onUpdateWord) {
-                onUpdateWord({ ...currentWord, imageUrl: url });
+            // A fixed image on the word would win over the new one next time
+            if (onUpdateWord && currentWord.imageUrl) {
+                onUpdateWord({ ...currentWord, imageUrl: undefined });
             }
         })
         .catch(err => console.error(err));
@@ -195,6 +284,8 @@ const StudySession: React.FC<StudySessionProps> = ({ mode, words, onComplete, on
         setMatchCards(cards);
         setMatchMistakes(new Set());
         setResults([]);
+        matchTimesRef.current = {};
+        cardShownAtRef.current = Date.now();
     }
   }, [mode, words]);
 
@@ -209,8 +300,11 @@ const StudySession: React.FC<StudySessionProps> = ({ mode, words, onComplete, on
     }
   }, [currentWord, mode, isAudioUnlocked, speak]);
 
-  const handleNext = (correct: boolean) => {
-    const newResults = [...results, { wordId: currentWord.id, correct }];
+  const handleNext = (grade: ReviewGrade, responseTimeMs: number = elapsed()) => {
+    advance([...results, { wordId: currentWord.id, grade, responseTimeMs, direction }]);
+  };
+
+  const advance = (newResults: SessionResult[]) => {
     setResults(newResults);
 
     if (currentIndex < words.length - 1) {
@@ -218,11 +312,34 @@ const StudySession: React.FC<StudySessionProps> = ({ mode, words, onComplete, on
       setTypingInput('');
       setTypingFeedback('neutral');
       setTypingMessage('');
+      setChoice(null);
     } else {
       onComplete(newResults);
     }
   };
 
+  // Multiple Choice Logic
+  const question = quiz[currentIndex];
+
+  const handleChoice = (option: string) => {
+    if (choice !== null || !question) return;
+    const responseTimeMs = elapsed();
+    setChoice(option);
+    if (option === question.answer) setTimeout(() => handleNext(ReviewGrade.Good, responseTimeMs), 900);
+    else setTimeout(() => handleNext(ReviewGrade.Again, responseTimeMs), 2000);
+  };
+
+  // Keys 1-4 pick an option
+  useEffect(() => {
+    if (mode !== StudyMode.multipleChoice || !question) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const option = question.options[Number(e.key) - 1];
+      if (option) handleChoice(option);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
   // Match Mode Logic
   const handleCardClick = (clickedCard: MatchCard) => {
       // Ignore click if we are processing, or card is already matched/wrong/selected/correct
@@ -237,6 +354,7 @@ const StudySession: React.FC<StudySessionProps> = ({ mode, words, onComplete, on
           
           if (selected.wordId === clickedCard.wordId) {
               // --- CORRECT MATCH ---
+              matchTimesRef.current[clickedCard.wordId] = elapsed();
               // 1. Mark as 'correct' (Green visual feedback)
               setMatchCards(prev => prev.map(c => (c.id === clickedCard.id || c.id === selected.id) ? { ...c, state: 'correct' } : c));
               
@@ -248,7 +366,11 @@ const StudySession: React.FC<StudySessionProps> = ({ mode, words, onComplete, on
                   // Check win condition
                   const remaining = matchCards.filter(c => c.state !== 'matched' && c.state !== 'correct' && c.id !== clickedCard.id && c.id !== selected.id);
                   if (remaining.length === 0) {
-                      const matchResults = words.map(w => ({ wordId: w.id, correct: !matchMistakes.has(w.id) }));
+                      const matchResults = words.map(w => ({
+                          wordId: w.id,
+                          grade: matchMistakes.has(w.id) ? ReviewGrade.Again : ReviewGrade.Good,
+                          responseTimeMs: matchTimesRef.current[w.id] ?? elapsed()
+                      }));
                       setTimeout(() => onComplete(matchResults), 500);
                   }
               }, 600); // 600ms delay to see the green success state
@@ -303,37 +425,56 @@ const StudySession: React.FC<StudySessionProps> = ({ mode, words, onComplete, on
         {renderHeader()}
         {/* Added pb-8 for safe area */}
         <div className="flex-1 flex flex-col items-center justify-center relative w-full px-2 pb-8">
-            <Flashcard word={currentWord} onResult={handleNext} imageUrl={currentImage} onRegenerateImage={handleRegenerateImage} />
-            <p className="mt-2 text-xs text-slate-400 hidden md:block">Przesuń w prawo jeśli umiesz, w lewo jeśli nie.</p>
+            <Flashcard word={currentWord} onResult={handleNext} imageUrl={currentImage} onRegenerateImage={handleRegenerateImage} direction={direction} />
+            <p className="mt-2 text-xs text-slate-400 hidden md:block">Oceń, jak dobrze pamiętasz słowo (1-4), albo przesuń w prawo / w lewo.</p>
         </div>
       </div>
     );
   }
 
   if (mode === StudyMode.typing) {
+    const target = isReverse ? currentWord.polish : currentWord.english;
+
     const checkTyping = async () => {
         setTypingFeedback('neutral');
         setTypingMessage('Sprawdzanie...');
+        const responseTimeMs = elapsed();
         
-        const cleanInput = typingInput.trim().toLowerCase();
-        const cleanTarget = currentWord.english.trim().toLowerCase();
-
-        if (cleanInput === cleanTarget) {
+        // Checked locally first; only answers it doesn't recognise go to the AI
+        const match = matchAnswer(typingInput, currentWord, direction);
+        const grade = gradeOf(match);
+        if (grade !== null) {
             setTypingFeedback('correct');
-            setTypingMessage('Idealnie!');
-            setTimeout(() => handleNext(true), 1000);
+            setTypingMessage(match.message);
+            setTimeout(() => handleNext(grade, responseTimeMs), grade === ReviewGrade.Good ? 1000 : 2000);
+            return;
+        }
+
+        // The AI check only knows Polish -> English
+        if (isReverse || !typingInput.trim()) {
+            setTypingFeedback('wrong'); setTypingMessage(match.message); setTimeout(() => handleNext(ReviewGrade.Again, responseTimeMs), 2500);
+            return;
+        }
+
+        // Offline: the AI checks the answer later and the word is graded then, not in this session
+        if (!offlineQueue.canUseAi()) {
+            offlineQueue.add({ type: 'checkTranslation', wordId: currentWord.id, polish: currentWord.polish, answer: typingInput, responseTimeMs });
+            setTypingFeedback('neutral');
+            setTypingMessage('Brak internetu: sprawdzimy tę odpowiedź po powrocie do sieci.');
+            setTimeout(() => advance(results), 2000);
             return;
         }
 
         const result = await geminiService.checkTranslation(currentWord.polish, typingInput);
         if (result.feedback === 'AI_ERROR') {
-             setTypingFeedback('wrong'); setTypingMessage('Błędnie (AI niedostępne)'); setTimeout(() => handleNext(false), 2000); return;
+             setTypingFeedback('wrong'); setTypingMessage('Błędnie (AI niedostępne)'); setTimeout(() => handleNext(ReviewGrade.Again, responseTimeMs), 2000); return;
         }
 
+        // Accepted by the AI but not the exact target word: counts as a hard recall
         if (result.isCorrect) {
-            setTypingFeedback('correct'); setTypingMessage(result.feedback || 'Dobrze!'); setTimeout(() => handleNext(true), 1000);
+            setTypingFeedback('correct'); setTypingMessage(result.feedback || 'Dobrze!'); setTimeout(() => handleNext(ReviewGrade.Hard, responseTimeMs), 1000);
         } else {
-            setTypingFeedback('wrong'); setTypingMessage(result.feedback || 'Spróbuj jeszcze raz'); setTimeout(() => handleNext(false), 2500);
+            setTypingFeedback('wrong'); setTypingMessage(result.feedback || 'Spróbuj jeszcze raz'); setTimeout(() => handleNext(ReviewGrade.Again, responseTimeMs), 2500);
         }
     };
 
@@ -343,18 +484,32 @@ const StudySession: React.FC<StudySessionProps> = ({ mode, words, onComplete, on
          <div className="flex-1 flex flex-col items-center justify-center max-w-md mx-auto px-4 w-full">
             <div className="mb-4 w-full text-center">
                 {currentImage && <img src={currentImage} className="w-32 h-32 mx-auto rounded-lg object-cover mb-4 shadow-sm" alt="hint" />}
-                <h2 className="text-3xl font-bold text-center mb-2">{currentWord.polish}</h2>
-                <p className="text-center text-slate-400 text-sm">Przetłumacz na angielski</p>
+                <h2 className="text-3xl font-bold text-center mb-2" lang={isReverse ? 'en' : 'pl'}>{isReverse ? currentWord.english : currentWord.polish}</h2>
+                {!isReverse && currentWord.sense && <p className="text-center text-slate-500 text-sm mb-1">({currentWord.sense})</p>}
+                <p className="text-center text-slate-400 text-sm">{isReverse ? 'Przetłumacz na polski' : 'Przetłumacz na angielski'}</p>
             </div>
             <input type="text" value={typingInput} onChange={(e) => setTypingInput(e.target.value)} onKeyDown={(e) => e.key === 'Enter' && checkTyping()} className={`w-full p-4 text-center text-xl rounded-xl border-2 outline-none transition-all ${typingFeedback === 'neutral' ? 'border-slate-200 focus:border-indigo-500' : typingFeedback === 'correct' ? 'border-green-500 bg-green-50 text-green-700' : 'border-red-500 bg-red-50 text-red-700'}`} placeholder="Wpisz słowo..." autoFocus />
             <button onClick={checkTyping} className="mt-6 w-full bg-indigo-600 text-white py-4 rounded-xl font-bold hover:bg-indigo-700 transition-colors shadow-lg shadow-indigo-200">Sprawdź</button>
-            <div className="mt-4 text-center min-h-[1.5rem]">{typingFeedback === 'wrong' && (<div className="text-red-500 font-medium animate-shake">{typingMessage} <br/><span className="text-sm text-slate-500">Poprawnie: {currentWord.english}</span></div>)}{typingFeedback === 'correct' && (<div className="text-green-600 font-medium">{typingMessage}</div>)}</div>
+            <div className="mt-4 text-center min-h-[1.5rem]">{typingFeedback === 'wrong' && (<div className="text-red-500 font-medium animate-shake">{typingMessage} <br/><span className="text-sm text-slate-500">Poprawnie: {target}</span></div>)}{typingFeedback === 'correct' && (<div className="text-green-600 font-medium">{typingMessage}</div>)}{typingFeedback === 'neutral' && typingMessage && (<div className="text-slate-500 text-sm">{typingMessage}</div>)}</div>
          </div>
       </div>
     );
   }
 
   if (mode === StudyMode.listening) {
+    // Always the English word is heard; in reverse it has to be translated instead of written down
+    const target = isReverse ? currentWord.polish : currentWord.english;
+
+    const checkListening = () => {
+        const match = matchAnswer(typingInput, currentWord, direction);
+        const grade = gradeOf(match);
+        const responseTimeMs = elapsed();
+        // The correct word is shown anyway, so a plain hit needs no extra message
+        setTypingMessage(match.kind === 'exact' ? '' : match.message);
+        if(grade !== null) { setTypingFeedback('correct'); setTimeout(() => handleNext(grade, responseTimeMs), 2000); } 
+        else { setTypingFeedback('wrong'); setTimeout(() => handleNext(ReviewGrade.Again, responseTimeMs), 2500); }
+    };
+
     return (
         <div className="flex flex-col h-full bg-slate-50">
             {renderHeader()}
@@ -377,24 +532,14 @@ const StudySession: React.FC<StudySessionProps> = ({ mode, words, onComplete, on
                     type="text" 
                     value={typingInput}
                     onChange={(e) => setTypingInput(e.target.value)}
-                    onKeyDown={(e) => {
-                        if (e.key === 'Enter') {
-                            const isCorrect = typingInput.trim().toLowerCase() === currentWord.english.toLowerCase();
-                            if(isCorrect) { setTypingFeedback('correct'); setTimeout(() => handleNext(true), 2000); } 
-                            else { setTypingFeedback('wrong'); setTimeout(() => handleNext(false), 2500); }
-                        }
-                    }}
+                    onKeyDown={(e) => e.key === 'Enter' && checkListening()}
                     className={`w-full p-4 text-center text-xl rounded-xl border-2 outline-none mb-4 transition-colors ${typingFeedback === 'wrong' ? 'border-red-500 bg-red-50' : typingFeedback === 'correct' ? 'border-green-500 bg-green-50' : 'border-slate-200 focus:border-indigo-500'}`}
-                    placeholder="Co usłyszałeś?"
+                    placeholder={isReverse ? 'Co to znaczy po polsku?' : 'Co usłyszałeś?'}
                     autoFocus
                 />
                 
                 <button 
-                    onClick={() => {
-                        const isCorrect = typingInput.trim().toLowerCase() === currentWord.english.toLowerCase();
-                        if(isCorrect) { setTypingFeedback('correct'); setTimeout(() => handleNext(true), 2000); } 
-                        else { setTypingFeedback('wrong'); setTimeout(() => handleNext(false), 2500); }
-                    }}
+                    onClick={checkListening}
                     className="w-full bg-indigo-600 text-white py-3 rounded-xl font-bold hover:bg-indigo-700 shadow-lg shadow-indigo-200"
                 >
                     Sprawdź
@@ -404,13 +549,14 @@ const StudySession: React.FC<StudySessionProps> = ({ mode, words, onComplete, on
                     {typingFeedback === 'wrong' && (
                         <div className="animate-shake">
                             <div className="text-red-500 font-bold text-lg">Błąd!</div>
-                            <div className="text-slate-500">Poprawnie: <span className="font-semibold text-slate-800">{currentWord.english}</span></div>
+                            <div className="text-slate-500">Poprawnie: <span className="font-semibold text-slate-800">{target}</span></div>
                         </div>
                     )}
                     {typingFeedback === 'correct' && (
                         <div className="animate-bounce">
                             <div className="text-green-600 font-bold text-2xl">Świetnie! 🎉</div>
-                            <div className="text-slate-500">{currentWord.english}</div>
+                            <div className="text-slate-500">{isReverse ? `${currentWord.english} = ${currentWord.polish}` : currentWord.english}</div>
+                            {typingMessage && <div className="text-xs text-slate-400">{typingMessage}</div>}
                         </div>
                     )}
                 </div>
@@ -419,6 +565,89 @@ const StudySession: React.FC<StudySessionProps> = ({ mode, words, onComplete, on
     );
   }
 
+  if (mode === StudyMode.cloze) {
+    // Without a usable sentence the card falls back to plain typing with the Polish hint
+    const target = cloze ? cloze.answer : currentWord.english;
+
+    const checkCloze = () => {
+        if (typingFeedback !== 'neutral' || isClozeLoading) return;
+        const responseTimeMs = elapsed();
+        const input = typingInput.trim().toLowerCase();
+
+        if (input === target.toLowerCase()) {
+            setTypingFeedback('correct'); setTypingMessage('Idealnie!'); setTimeout(() => handleNext(ReviewGrade.Good, responseTimeMs), 1200);
+        } else if (cloze && input === currentWord.english.trim().toLowerCase()) {
+            // The right word in the wrong form ("run" for "ran")
+            setTypingFeedback('correct'); setTypingMessage(`Dobrze, ale w tym zdaniu: "${cloze.answer}"`); setTimeout(() => handleNext(ReviewGrade.Hard, responseTimeMs), 2000);
+        } else {
+            setTypingFeedback('wrong'); setTypingMessage('Błędnie'); setTimeout(() => handleNext(ReviewGrade.Again, responseTimeMs), 2500);
+        }
+    };
+
+    const blank = typingFeedback === 'neutral' ? '_____' : target;
+
+    return (
+      <div className="flex flex-col h-full bg-slate-50">
+         {renderHeader()}
+         <div className="flex-1 flex flex-col items-center justify-center max-w-md mx-auto px-4 w-full">
+            <div className="mb-6 w-full text-center">
+                {isClozeLoading ? (
+                    <p className="text-slate-400 animate-pulse">Przygotowuję zdanie...</p>
+                ) : (
+                    <p className="text-2xl font-medium text-slate-800 leading-relaxed" lang="en">
+                        {cloze ? cloze.before : ''}
+                        <span className={`font-bold px-1 border-b-2 ${typingFeedback === 'wrong' ? 'text-red-600 border-red-400' : typingFeedback === 'correct' ? 'text-green-600 border-green-500' : 'text-indigo-600 border-indigo-300'}`}>{blank}</span>
+                        {cloze ? cloze.after : ''}
+                    </p>
+                )}
+                <p className="text-center text-slate-500 text-sm mt-3">Podpowiedź: <span className="font-semibold text-slate-700">{currentWord.polish}</span></p>
+                {!cloze && !isClozeLoading && <p className="text-center text-slate-400 text-xs mt-1">Brak zdania przykładowego, wpisz samo słowo.</p>}
+            </div>
+            <input type="text" value={typingInput} onChange={(e) => setTypingInput(e.target.value)} onKeyDown={(e) => e.key === 'Enter' && checkCloze()} className={`w-full p-4 text-center text-xl rounded-xl border-2 outline-none transition-all ${typingFeedback === 'neutral' ? 'border-slate-200 focus:border-indigo-500' : typingFeedback === 'correct' ? 'border-green-500 bg-green-50 text-green-700' : 'border-red-500 bg-red-50 text-red-700'}`} placeholder="Wpisz brakujące słowo..." autoFocus />
+            <button onClick={checkCloze} disabled={isClozeLoading} className="mt-6 w-full bg-indigo-600 text-white py-4 rounded-xl font-bold hover:bg-indigo-700 transition-colors shadow-lg shadow-indigo-200 disabled:opacity-50">Sprawdź</button>
+            <div className="mt-4 text-center min-h-[1.5rem]">{typingFeedback === 'wrong' && (<div className="text-red-500 font-medium animate-shake">{typingMessage} <br/><span className="text-sm text-slate-500">Poprawnie: {target}</span></div>)}{typingFeedback === 'correct' && (<div className="text-green-600 font-medium">{typingMessage}</div>)}</div>
+         </div>
+      </div>
+    );
+  }
+
+  if (mode === StudyMode.multipleChoice && question) {
+    return (
+      <div className="flex flex-col h-full bg-slate-50">
+         {renderHeader()}
+         <div className="flex-1 flex flex-col items-center justify-center max-w-md mx-auto px-4 w-full">
+            <div className="mb-6 w-full text-center">
+                {currentImage && <img src={currentImage} className="w-32 h-32 mx-auto rounded-lg object-cover mb-4 shadow-sm" alt="hint" />}
+                <h2 className="text-3xl font-bold text-center mb-2" lang={question.direction === 'pl-en' ? 'pl' : 'en'}>{question.prompt}</h2>
+                <p className="text-center text-slate-400 text-sm">{question.direction === 'pl-en' ? 'Wybierz angielskie tłumaczenie' : 'Wybierz polskie tłumaczenie'}</p>
+            </div>
+            <div className="grid grid-cols-1 gap-3 w-full">
+                {question.options.map((option, i) => {
+                    let optionStyle = 'bg-white border-slate-200 text-slate-700 hover:border-indigo-300';
+                    if (choice !== null) {
+                        if (option === question.answer) optionStyle = 'bg-green-100 border-green-500 text-green-700';
+                        else if (option === choice) optionStyle = 'bg-red-100 border-red-400 text-red-700 animate-shake';
+                        else optionStyle = 'bg-white border-slate-200 text-slate-400';
+                    }
+                    return (
+                        <button
+                            key={option}
+                            onClick={() => handleChoice(option)}
+                            disabled={choice !== null}
+                            className={`flex items-center gap-3 w-full p-4 rounded-xl border-2 text-lg font-medium text-left transition-all ${optionStyle}`}
+                            lang={question.direction === 'pl-en' ? 'en' : 'pl'}
+                        >
+                            <span className="hidden md:inline text-xs text-slate-400 font-mono">{i + 1}</span>
+                            {option}
+                        </button>
+                    );
+                })}
+            </div>
+         </div>
+      </div>
+    );
+  }
+
   if (mode === StudyMode.match) {
       return (
           // Fixed height layout for Match mode
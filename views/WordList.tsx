@@ -0,0 +1,336 @@
+import React, { useDeferredValue, useEffect, useMemo, useRef, useState } from 'react';
+import { Word, WordStatus, LanguageLevel, StudySource, ReviewGrade } from '../types';
+import { storageService } from '../services/storage';
+import { schedulerService } from '../services/scheduler';
+
+interface WordListProps {
+  words: Word[];
+  onOpenWord: (word: Word) => void;
+  onAdd: () => void;
+  onUpdateWords: (updated: Word[]) => void;
+  onDeleteWords: (ids: string[]) => void;
+  children?: React.ReactNode; // Import / export toolbar, shown under the title
+}
+
+type DueFilter = 'all' | 'due' | 'today' | 'week' | 'later';
+type SortKey = 'newest' | 'oldest' | 'english' | 'polish' | 'weakest' | 'nextReview';
+
+const DUE_OPTIONS: { val: DueFilter; label: string }[] = [
+  { val: 'all', label: 'Każdy termin' },
+  { val: 'due', label: 'Do powtórki teraz' },
+  { val: 'today', label: 'Do końca dnia' },
+  { val: 'week', label: 'W ciągu tygodnia' },
+  { val: 'later', label: 'Później' },
+];
+
+const SORT_OPTIONS: { val: SortKey; label: string }[] = [
+  { val: 'newest', label: 'Najnowsze' },
+  { val: 'oldest', label: 'Najstarsze' },
+  { val: 'english', label: 'A–Z (angielski)' },
+  { val: 'polish', label: 'A–Z (polski)' },
+  { val: 'weakest', label: 'Najniższa skuteczność' },
+  { val: 'nextReview', label: 'Najbliższa powtórka' },
+];
+
+const STATUS_LABELS: Record<WordStatus, string> = {
+  [WordStatus.New]: 'nowe',
+  [WordStatus.Learning]: 'w nauce',
+  [WordStatus.Learned]: 'nauczone',
+};
+
+const STATUS_CLASSES: Record<WordStatus, string> = {
+  [WordStatus.New]: 'bg-blue-100 text-blue-700',
+  [WordStatus.Learning]: 'bg-yellow-100 text-yellow-700',
+  [WordStatus.Learned]: 'bg-green-100 text-green-700',
+};
+
+// Rows have a fixed height so only the visible ones need to be rendered
+const ROW_HEIGHT = 64;
+const OVERSCAN = 8;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const englishCollator = new Intl.Collator('en', { sensitivity: 'base' });
+const polishCollator = new Intl.Collator('pl', { sensitivity: 'base' });
+
+// Case and Polish characters don't matter when searching: "zolw" finds "żółw"
+const normalize = (s: string) => s.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/ł/g, 'l');
+
+const searchText = (w: Word) => normalize([
+  w.english, w.polish, w.exampleSentence, w.exampleTranslation, w.sense, w.notes,
+  ...(w.englishAlternatives || []), ...(w.polishAlternatives || []),
+  ...(w.examples || []).flatMap(e => [e.english, e.polish]),
+].filter(Boolean).join('\n'));
+
+// The earliest review of the directions already studied; undefined for a word that is new both ways
+const nextReviewOf = (w: Word): number | undefined => {
+  const dates = (['pl-en', 'en-pl'] as const)
+    .map(d => schedulerService.getProgress(w, d))
+    .filter(p => p.status !== WordStatus.New)
+    .map(p => p.nextReview);
+  return dates.length > 0 ? Math.min(...dates) : undefined;
+};
+
+const formatNextReview = (at: number | undefined, now: number) => {
+  if (at === undefined) return '—';
+  if (at <= now) return 'teraz';
+  const days = Math.ceil((at - now) / DAY_MS);
+  return days <= 1 ? 'jutro' : `za ${days} dni`;
+};
+
+const selectClass = 'p-2 border border-slate-300 rounded-lg text-sm bg-white';
+
+/**
+ * The word list: search, filters, sorting and bulk actions over a virtualized list.
+ */
+const WordList: React.FC<WordListProps> = ({ words, onOpenWord, onAdd, onUpdateWords, onDeleteWords, children }) => {
+  const [query, setQuery] = useState('');
+  const [source, setSource] = useState<StudySource>(StudySource.All);
+  const [category, setCategory] = useState('');
+  const [level, setLevel] = useState<LanguageLevel | ''>('');
+  const [status, setStatus] = useState<WordStatus | ''>('');
+  const [due, setDue] = useState<DueFilter>('all');
+  const [sort, setSort] = useState<SortKey>('newest');
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [newCategory, setNewCategory] = useState('');
+
+  const listRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(600);
+
+  // Typing stays responsive while a large deck is filtered in the background
+  const deferredQuery = useDeferredValue(query);
+
+  const categories = useMemo(
+    () => Array.from(new Set(words.map(w => w.category))).sort(polishCollator.compare),
+    [words]
+  );
+
+  // Everything derived per word is computed once per change of the deck, not on every keystroke.
+  // Words change after every session, which is also when new review logs are written.
+  const index = useMemo(() => {
+    const answers = new Map<string, { total: number; correct: number }>();
+    storageService.getReviewLogs().forEach(l => {
+      const entry = answers.get(l.wordId) || { total: 0, correct: 0 };
+      entry.total++;
+      if (l.grade !== ReviewGrade.Again) entry.correct++;
+      answers.set(l.wordId, entry);
+    });
+    return new Map(words.map(w => {
+      const a = answers.get(w.id);
+      return [w.id, {
+        text: searchText(w),
+        accuracy: a ? a.correct / a.total : undefined,
+        nextReview: nextReviewOf(w),
+      }];
+    }));
+  }, [words]);
+
+  const filtered = useMemo(() => {
+    const now = Date.now();
+    const endOfDay = new Date().setHours(23, 59, 59, 999);
+    const q = normalize(deferredQuery.trim());
+
+    const matchesDue = (at: number | undefined) => {
+      if (due === 'all') return true;
+      if (at === undefined) return false;
+      if (due === 'due') return at <= now;
+      if (due === 'today') return at <= endOfDay;
+      if (due === 'week') return at <= now + 7 * DAY_MS;
+      return at > now + 7 * DAY_MS;
+    };
+
+    const list = words.filter(w => {
+      const info = index.get(w.id)!;
+      if (source === StudySource.Manual && w.aiGenerated) return false;
+      if (source === StudySource.AiGenerated && !w.aiGenerated) return false;
+      if (category && w.category !== category) return false;
+      if (level && w.level !== level) return false;
+      if (status && w.status !== status) return false;
+      if (!matchesDue(info.nextReview)) return false;
+      return !q || info.text.includes(q);
+    });
+
+    // Words without a value (never reviewed, no date added) go last; the sort is stable
+    const byNumber = (get: (w: Word) => number | undefined, dir: 1 | -1) => (a: Word, b: Word) => {
+      const x = get(a);
+      const y = get(b);
+      if (x === undefined || y === undefined) return x === y ? 0 : x === undefined ? 1 : -1;
+      return (x - y) * dir;
+    };
+    const compare: Record<SortKey, (a: Word, b: Word) => number> = {
+      newest: byNumber(w => w.createdAt, -1),
+      oldest: byNumber(w => w.createdAt, 1),
+      english: (a, b) => englishCollator.compare(a.english, b.english),
+      polish: (a, b) => polishCollator.compare(a.polish, b.polish),
+      weakest: byNumber(w => index.get(w.id)!.accuracy, 1),
+      nextReview: byNumber(w => index.get(w.id)!.nextReview, 1),
+    };
+    return list.sort(compare[sort]);
+  }, [words, index, deferredQuery, source, category, level, status, due, sort]);
+
+  // Bulk actions only touch selected words the filters still show
+  const selectedWords = useMemo(() => filtered.filter(w => selected.has(w.id)), [filtered, selected]);
+  const allSelected = filtered.length > 0 && selectedWords.length === filtered.length;
+
+  const toggle = (id: string) => setSelected(prev => {
+    const next = new Set(prev);
+    if (next.has(id)) next.delete(id); else next.add(id);
+    return next;
+  });
+  const toggleAll = () => setSelected(allSelected ? new Set() : new Set(filtered.map(w => w.id)));
+
+  const bulkUpdate = (change: (w: Word) => Word) => {
+    onUpdateWords(selectedWords.map(change));
+    setSelected(new Set());
+  };
+
+  const handleBulkDelete = () => {
+    if (!window.confirm(`Usunąć zaznaczone słowa (${selectedWords.length})?`)) return;
+    onDeleteWords(selectedWords.map(w => w.id));
+    setSelected(new Set());
+  };
+
+  const handleBulkReset = () => {
+    if (!window.confirm(`Zresetować postępy zaznaczonych słów (${selectedWords.length}) w obu kierunkach? Historia powtórek zostanie zachowana.`)) return;
+    const now = Date.now();
+    bulkUpdate(w => schedulerService.reset(w, now));
+  };
+
+  const handleBulkCategory = () => {
+    const value = newCategory.trim();
+    if (!value) return;
+    bulkUpdate(w => ({ ...w, category: value }));
+    setNewCategory('');
+  };
+
+  // --- VIRTUALIZATION ---
+  useEffect(() => {
+    const el = listRef.current;
+    if (!el) return;
+    const measure = () => setViewportHeight(el.clientHeight);
+    measure();
+    window.addEventListener('resize', measure);
+    return () => window.removeEventListener('resize', measure);
+  }, [filtered.length]);
+
+  // A new search or filter starts from the top
+  useEffect(() => {
+    if (listRef.current) listRef.current.scrollTop = 0;
+    setScrollTop(0);
+  }, [deferredQuery, source, category, level, status, due, sort]);
+
+  const first = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const last = Math.min(filtered.length, Math.ceil((scrollTop + viewportHeight) / ROW_HEIGHT) + OVERSCAN);
+  const now = Date.now();
+
+  return (
+    <div className="space-y-4 pb-32 md:pb-0">
+        <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-4 gap-4">
+            <h2 className="text-2xl font-bold">Baza Słów ({filtered.length}{filtered.length !== words.length ? ` z ${words.length}` : ''})</h2>
+            <button onClick={onAdd} className="bg-indigo-600 text-white px-3 py-2 rounded-lg text-sm font-bold hover:bg-indigo-700"> + Dodaj </button>
+        </div>
+        {children}
+
+        <div className="space-y-2">
+            <input
+                type="search"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="Szukaj po polsku, angielsku lub w przykładach..."
+                className="w-full p-2 border border-slate-300 rounded-lg text-sm bg-white focus:ring-2 focus:ring-indigo-500 outline-none"
+            />
+            <div className="flex flex-wrap gap-2">
+                <select value={source} onChange={(e) => setSource(e.target.value as StudySource)} className={selectClass}>
+                    <option value={StudySource.All}>Wszystkie</option>
+                    <option value={StudySource.Manual}>Tylko moje</option>
+                    <option value={StudySource.AiGenerated}>Tylko AI</option>
+                </select>
+                <select value={category} onChange={(e) => setCategory(e.target.value)} className={selectClass}>
+                    <option value="">Każda kategoria</option>
+                    {categories.map(c => <option key={c} value={c}>{c}</option>)}
+                </select>
+                <select value={level} onChange={(e) => setLevel(e.target.value as LanguageLevel | '')} className={selectClass}>
+                    <option value="">Każdy poziom</option>
+                    {Object.values(LanguageLevel).map(l => <option key={l} value={l}>{l}</option>)}
+                </select>
+                <select value={status} onChange={(e) => setStatus(e.target.value as WordStatus | '')} className={selectClass}>
+                    <option value="">Każdy status</option>
+                    {Object.values(WordStatus).map(s => <option key={s} value={s}>{STATUS_LABELS[s]}</option>)}
+                </select>
+                <select value={due} onChange={(e) => setDue(e.target.value as DueFilter)} className={selectClass}>
+                    {DUE_OPTIONS.map(o => <option key={o.val} value={o.val}>{o.label}</option>)}
+                </select>
+                <select value={sort} onChange={(e) => setSort(e.target.value as SortKey)} className={selectClass}>
+                    {SORT_OPTIONS.map(o => <option key={o.val} value={o.val}>{o.label}</option>)}
+                </select>
+            </div>
+        </div>
+
+        {selectedWords.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2 text-sm bg-indigo-50 border border-indigo-100 rounded-xl p-3">
+                <span className="font-bold text-indigo-800">Zaznaczone: {selectedWords.length}</span>
+                <input
+                    type="text"
+                    list="word-list-categories"
+                    value={newCategory}
+                    onChange={(e) => setNewCategory(e.target.value)}
+                    onKeyDown={(e) => { if (e.key === 'Enter') handleBulkCategory(); }}
+                    placeholder="Nowa kategoria"
+                    className="p-1.5 border border-slate-300 rounded-lg bg-white w-36"
+                />
+                <datalist id="word-list-categories">
+                    {categories.map(c => <option key={c} value={c} />)}
+                </datalist>
+                <button onClick={handleBulkCategory} disabled={!newCategory.trim()} className="px-3 py-1.5 rounded-lg border border-slate-300 bg-white text-slate-700 hover:bg-slate-50 disabled:opacity-50">Zmień kategorię</button>
+                <select value="" onChange={(e) => { const l = e.target.value as LanguageLevel; if (l) bulkUpdate(w => ({ ...w, level: l })); }} className="p-1.5 border border-slate-300 rounded-lg bg-white">
+                    <option value="">Zmień poziom...</option>
+                    {Object.values(LanguageLevel).map(l => <option key={l} value={l}>{l}</option>)}
+                </select>
+                <button onClick={handleBulkReset} className="px-3 py-1.5 rounded-lg border border-slate-300 bg-white text-slate-700 hover:bg-slate-50">↺ Resetuj postęp</button>
+                <button onClick={handleBulkDelete} className="px-3 py-1.5 rounded-lg border border-red-200 bg-white text-red-600 hover:bg-red-50">🗑️ Usuń</button>
+                <button onClick={() => setSelected(new Set())} className="px-3 py-1.5 text-slate-500 hover:text-slate-800">Odznacz</button>
+            </div>
+        )}
+
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+            <label className="flex items-center gap-3 px-4 py-2 border-b border-slate-100 text-xs text-slate-500 cursor-pointer">
+                <input type="checkbox" checked={allSelected} onChange={toggleAll} disabled={filtered.length === 0} />
+                Zaznacz wszystkie widoczne
+            </label>
+            <div ref={listRef} onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)} className="max-h-[65vh] overflow-y-auto">
+                {filtered.length === 0 && <div className="p-8 text-center text-sm text-slate-400">Brak słów spełniających kryteria.</div>}
+                    <div className="relative" style={{ height: filtered.length * ROW_HEIGHT }}>
+                        {filtered.slice(first, last).map((word, i) => {
+                            const info = index.get(word.id)!;
+                            return (
+                                <div
+                                    key={word.id}
+                                    onClick={() => onOpenWord(word)}
+                                    style={{ top: (first + i) * ROW_HEIGHT, height: ROW_HEIGHT }}
+                                    className={`absolute inset-x-0 px-4 flex items-center gap-3 cursor-pointer border-b border-slate-100 ${selected.has(word.id) ? 'bg-indigo-50' : 'hover:bg-slate-50'}`}
+                                >
+                                    <input type="checkbox" checked={selected.has(word.id)} onChange={() => toggle(word.id)} onClick={(e) => e.stopPropagation()} />
+                                    <div className="flex-1 min-w-0">
+                                        <div className="font-bold text-slate-800 truncate">{word.english}</div>
+                                        <div className="text-sm text-slate-500 truncate">{word.polish}</div>
+                                    </div>
+                                    <div className="hidden md:block text-xs text-slate-400 text-right shrink-0">
+                                        <div>{word.category} · {word.level}</div>
+                                        <div>
+                                            {info.accuracy !== undefined && `${Math.round(info.accuracy * 100)}% · `}
+                                            powtórka: {formatNextReview(info.nextReview, now)}
+                                        </div>
+                                    </div>
+                                    <span className={`text-xs px-2 py-1 rounded-full shrink-0 ${STATUS_CLASSES[word.status]}`}>{STATUS_LABELS[word.status]}</span>
+                                    <button onClick={(e) => { e.stopPropagation(); onDeleteWords([word.id]); }} className="text-slate-300 hover:text-red-500 shrink-0">🗑️</button>
+                                </div>
+                            );
+                        })}
+                    </div>
+            </div>
+        </div>
+    </div>
+  );
+};
+
+export default WordList;
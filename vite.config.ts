@@ -1,16 +1,28 @@
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Lists every built file in asset-manifest.json so the service worker (public/sw.js)
+// can precache lazily loaded chunks too, not only what index.html references
+const assetManifest = (): Plugin => ({
+  name: 'asset-manifest',
+  apply: 'build',
+  generateBundle(_, bundle) {
+    this.emitFile({ type: 'asset', fileName: 'asset-manifest.json', source: JSON.stringify(Object.keys(bundle)) });
+  },
+});
+
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => {
   const env = loadEnv(mode, '.', '');
   return {
-    plugins: [react()],
+    plugins: [react(), assetManifest()],
     define: {
       // Polyfill process.env for the existing code structure
       'process.env.API_KEY': JSON.stringify(env.API_KEY),
       // Add support for HF Key from .env
-      'process.env.HUGGING_FACE_API_KEY': JSON.stringify(env.HUGGING_FACE_API_KEY || env.VITE_HUGGING_FACE_API_KEY)
+      'process.env.HUGGING_FACE_API_KEY': JSON.stringify(env.HUGGING_FACE_API_KEY || env.VITE_HUGGING_FACE_API_KEY),
+      // Changes with every build, so the service worker is reinstalled and precaches the new files
+      __BUILD_ID__: JSON.stringify(Date.now().toString(36)),
     }
   };
 });